@@ -0,0 +1,201 @@
+/**
+ * Host control panel for running events.
+ * Lets admins force-start a race, abort a stuck match, skip the end countdown and send a player back to the lobby.
+ * The panel is only visible to the configured admins and to players editing the world, and every action is logged.
+ */
+import * as hz from 'horizon/core';
+import { Binding, Pressable, Text, UIComponent, UINode, View } from 'horizon/ui';
+import { Events } from "Events";
+import { GameState } from 'GameUtils';
+import { GameManager } from 'GameManager';
+import { MatchManager } from 'MatchManager';
+
+export class AdminPanel extends UIComponent<typeof AdminPanel> {
+  static propsDefinition = {
+    adminNames: { type: hz.PropTypes.String, default: '' }, // Names of the players allowed to use the panel, comma separated
+    allowWorldEditors: { type: hz.PropTypes.Boolean, default: true }, // Whether players in build mode, such as the world owner, can use the panel
+    maxLogLines: { type: hz.PropTypes.Number, default: 5 }, // Number of recent admin actions shown on the panel
+  };
+
+  protected readonly panelWidth = 600; // Width of the panel in pixels
+  protected readonly panelHeight = 400; // Height of the panel in pixels
+
+  private readonly visibilityCheckIntervalMS = 2000; // Interval between checks for players entering or leaving build mode
+
+  private adminNames = new Set<string>(); // Names of the configured admins
+  private admins = new Map<number, hz.Player>(); // Maps player IDs to the admins the panel is shown to
+  private visibilityIntervalID = 0; // Interval ID for checking who is an admin
+  private targetIndices = new Map<number, number>(); // Maps admin IDs to the index of the player they have selected
+  private actionLog: string[] = []; // Recent admin actions, newest last
+
+  private gameStateText = new Binding<string>('Match: Ready'); // Current game state shown on the panel
+  private targetText = new Binding<string>('No player selected'); // Player selected by each admin
+  private logText = new Binding<string>(''); // Recent admin actions shown on the panel
+
+  // Pre-start lifecycle method to initialize the admin list and event listeners
+  preStart() {
+    this.props.adminNames.split(',').forEach((name) => {
+      if (name.trim() !== '') {
+        this.adminNames.add(name.trim());
+      }
+    });
+
+    // Show the current game state to the admins
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      this.gameStateText.set(`Match: ${GameState[data.toState]}`);
+      this.updatePanelVisibility();
+    });
+
+    // Show the panel to players who are admins
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, () => {
+      this.updatePanelVisibility();
+      this.updateTargetText();
+    });
+
+    // Hide the panel from admins who left, and keep every admin's selection valid
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.targetIndices.delete(player.id);
+      this.updatePanelVisibility(player);
+      this.updateTargetText();
+    });
+
+    // Players can enter or leave build mode at any time, and there is no event for it
+    this.visibilityIntervalID = this.async.setInterval(() => {
+      this.updatePanelVisibility();
+    }, this.visibilityCheckIntervalMS);
+
+    this.updatePanelVisibility();
+  }
+
+  // Build the panel with the match controls, the player controls and the action log
+  initializeUI(): UINode {
+    return View({
+      children: [
+        Text({ text: 'Race Admin', style: { fontSize: 32, color: 'white', fontWeight: 'bold' } }),
+        Text({ text: this.gameStateText, style: { fontSize: 22, color: 'white', marginBottom: 12 } }),
+        View({
+          children: [
+            this.button('Force Start', (admin) => this.forceStartMatch(admin)),
+            this.button('Abort Match', (admin) => this.abortMatch(admin)),
+            this.button('Skip Countdown', (admin) => this.skipEndCountdown(admin)),
+          ],
+          style: { flexDirection: 'row', marginBottom: 12 },
+        }),
+        View({
+          children: [
+            this.button('<', (admin) => this.selectTarget(admin, -1)),
+            Text({ text: this.targetText, style: { fontSize: 22, color: 'white', width: 220, textAlign: 'center' } }),
+            this.button('>', (admin) => this.selectTarget(admin, 1)),
+            this.button('Send to Lobby', (admin) => this.sendTargetToLobby(admin)),
+          ],
+          style: { flexDirection: 'row', alignItems: 'center', marginBottom: 12 },
+        }),
+        Text({ text: this.logText, style: { fontSize: 18, color: '#cccccc' } }),
+      ],
+      style: { backgroundColor: '#202020e0', borderRadius: 12, padding: 16, width: '100%', height: '100%' },
+    });
+  }
+
+  // Create a button that only runs its action for admins
+  private button(label: string, onClick: (admin: hz.Player) => void): UINode {
+    return Pressable({
+      children: Text({ text: label, style: { fontSize: 20, color: 'white', textAlign: 'center' } }),
+      onClick: (player: hz.Player) => {
+        if (!this.isAdmin(player)) {
+          console.warn(`${this.constructor.name} ${player.name.get()} is not allowed to use the admin panel`);
+          return;
+        }
+        onClick(player);
+      },
+      style: { backgroundColor: '#3a5fcd', borderRadius: 8, padding: 8, marginRight: 8 },
+    });
+  }
+
+  // Returns true if the player is a configured admin, or is editing the world when editors are allowed
+  private isAdmin(player: hz.Player): boolean {
+    return this.adminNames.has(player.name.get()) || (this.props.allowWorldEditors && player.isInBuildMode.get());
+  }
+
+  // Make the panel visible to the admins only, checking again who is an admin. A player leaving the world is left out
+  private updatePanelVisibility(leavingPlayer?: hz.Player) {
+    const admins = this.world.getPlayers().filter((player) => player.id !== leavingPlayer?.id && this.isAdmin(player));
+    const newAdmins = admins.filter((admin) => !this.admins.has(admin.id));
+    this.admins = new Map(admins.map((admin) => [admin.id, admin]));
+    this.entity.setVisibilityForPlayers(admins, hz.PlayerVisibilityMode.VisibleTo);
+    if (newAdmins.length > 0) {
+      this.updateTargetText();
+    }
+  }
+
+  // Force the match to start, skipping the countdown if it is already running
+  private forceStartMatch(admin: hz.Player) {
+    const done = GameManager.getInstance().forceStartMatch();
+    this.logAction(admin, done ? 'force started the match' : 'could not force start the match');
+  }
+
+  // Abort the match without counting its results
+  private abortMatch(admin: hz.Player) {
+    const done = GameManager.getInstance().abortMatch();
+    this.logAction(admin, done ? 'aborted the match' : 'could not abort the match, none is running');
+  }
+
+  // Skip the end of match countdown
+  private skipEndCountdown(admin: hz.Player) {
+    const done = GameManager.getInstance().skipEndCountdown();
+    this.logAction(admin, done ? 'skipped the end countdown' : 'could not skip the end countdown, none is running');
+  }
+
+  // Send the player selected by the admin back to the lobby
+  private sendTargetToLobby(admin: hz.Player) {
+    const target = this.getTarget(admin);
+    if (!target) {
+      this.logAction(admin, 'could not send a player to the lobby, none is selected');
+      return;
+    }
+    const done = MatchManager.getInstance().sendPlayerToLobby(target);
+    this.logAction(admin, done ? `sent ${target.name.get()} to the lobby` : `could not send ${target.name.get()} to the lobby`);
+  }
+
+  // Select the previous or next player in the world
+  private selectTarget(admin: hz.Player, step: number) {
+    const players = this.world.getPlayers();
+    if (players.length === 0) {
+      return;
+    }
+    const index = (this.targetIndices.get(admin.id) ?? 0) + step;
+    this.targetIndices.set(admin.id, (index % players.length + players.length) % players.length);
+    this.updateTargetText();
+  }
+
+  // Get the player selected by the admin, if any
+  private getTarget(admin: hz.Player): hz.Player | undefined {
+    const players = this.world.getPlayers();
+    return players[Math.min(this.targetIndices.get(admin.id) ?? 0, players.length - 1)];
+  }
+
+  // Show every admin the name of the player they have selected
+  private updateTargetText() {
+    this.admins.forEach((admin) => {
+      const target = this.getTarget(admin);
+      this.targetText.set(target ? target.name.get() : 'No player selected', [admin]);
+    });
+  }
+
+  // Log the admin action to the console and to the panel
+  private logAction(admin: hz.Player, action: string) {
+    const entry = `${admin.name.get()} ${action}`;
+    console.log(`${this.constructor.name} ${entry}`);
+
+    this.actionLog.push(entry);
+    this.actionLog = this.actionLog.slice(-Math.max(1, this.props.maxLogLines));
+    this.logText.set(this.actionLog.join('\n'));
+  }
+
+  // Dispose method to stop checking for admins when the component is destroyed
+  dispose() {
+    this.async.clearInterval(this.visibilityIntervalID);
+  }
+}
+
+// Register the AdminPanel component with the framework
+hz.Component.register(AdminPanel);
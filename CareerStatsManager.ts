@@ -0,0 +1,214 @@
+/**
+ * Keeps lifetime career statistics for every player in persistent storage.
+ * Race stats are counted from the race results, so aborted matches are left out, and ability use and out-of-bounds
+ * falls are counted as they happen. All stats of a player are stored in one versioned JSON object variable.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { PlayerAbility, RaceResult } from 'GameUtils';
+import { RaceManager } from 'RaceManager';
+
+// The lifetime stats of a player as stored in persistent storage
+export type CareerStats = {
+  version: number,
+  racesStarted: number,
+  racesFinished: number,
+  wins: number,
+  podiums: number, // Finishes in the top three, wins included
+  dnfs: number, // Races the player was ranked in without finishing
+  bestTimes: { [trackName: string]: number }, // Best finish time in seconds on each track
+  boostsUsed: number,
+  doubleJumps: number,
+  outOfBoundsFalls: number,
+};
+
+const careerStatsVersion = 1; // Version of the stored stats format, stats of other versions start over
+export const careerStatsVariableKey = 'SkylineSprint:careerStats'; // Default persistent player variable storing the stats
+
+// Stats of a player who has not raced yet
+export function createCareerStats(): CareerStats {
+  return {
+    version: careerStatsVersion,
+    racesStarted: 0,
+    racesFinished: 0,
+    wins: 0,
+    podiums: 0,
+    dnfs: 0,
+    bestTimes: {},
+    boostsUsed: 0,
+    doubleJumps: 0,
+    outOfBoundsFalls: 0,
+  };
+}
+
+export class CareerStatsManager extends hz.Component<typeof CareerStatsManager> {
+  static propsDefinition = {
+    statsVariableKey: { type: hz.PropTypes.String, default: careerStatsVariableKey }, // Persistent player variable storing the stats
+    trackName: { type: hz.PropTypes.String, default: 'Skyline' }, // Name the best times on this track are stored under
+    saveIntervalMS: { type: hz.PropTypes.Number, default: 10000 }, // Interval for saving stats changed outside of a race result
+  };
+
+  private playerStats = new Map<number, { player: hz.Player, stats: CareerStats }>(); // Maps player IDs to their loaded stats
+  private unsavedPlayerIDs = new Set<number>(); // IDs of the players whose stats changed since they were last saved
+  private oobSubs = new Map<number, hz.EventSubscription>(); // Maps player IDs to their out-of-bounds event subscription
+  private saveIntervalID: number = 0; // ID of the interval saving changed stats
+
+  private static s_instance: CareerStatsManager;
+  public static getInstance(): CareerStatsManager {
+    return CareerStatsManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (CareerStatsManager.s_instance === undefined) {
+      CareerStatsManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    // Load the stats of players entering the world and listen for their out-of-bounds falls
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      this.handleOnPlayerEnterWorld(player);
+    });
+
+    // Save the stats of players leaving the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.handleOnPlayerExitWorld(player);
+    });
+
+    this.connectLocalBroadcastEvent(Events.onRaceResults, (data) => {
+      this.handleOnRaceResults(data.results);
+    });
+
+    // The local player controllers tell the server when a boost or double jump is used
+    this.connectNetworkBroadcastEvent(Events.onPlayerAbilityUsed, (data) => {
+      this.updateStats(data.player, (stats) => {
+        if (data.ability === PlayerAbility.Boost) {
+          stats.boostsUsed++;
+        } else if (data.ability === PlayerAbility.DoubleJump) {
+          stats.doubleJumps++;
+        }
+      });
+    });
+
+    this.saveIntervalID = this.async.setInterval(() => {
+      this.saveUnsavedStats();
+    }, this.props.saveIntervalMS);
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Get a copy of the player's stats, or null if they are not loaded
+  public getStats(player: hz.Player): CareerStats | null {
+    const entry = this.playerStats.get(player.id);
+    return entry ? { ...entry.stats, bestTimes: { ...entry.stats.bestTimes } } : null;
+  }
+
+  // Get the name the best times of the race being played are stored under, relay races have their own
+  public getTrackName(): string {
+    return RaceManager.getInstance()?.isRelayRace() ? `${this.props.trackName} Relay` : this.props.trackName;
+  }
+
+  // Handle a player entering the world
+  private handleOnPlayerEnterWorld(player: hz.Player) {
+    this.playerStats.set(player.id, { player, stats: this.loadStats(player) });
+    this.oobSubs.set(player.id, this.connectNetworkEvent(player, Events.onPlayerOutOfBounds, () => {
+      this.updateStats(player, (stats) => stats.outOfBoundsFalls++);
+    }));
+    this.sendLocalBroadcastEvent(Events.onCareerStatsUpdated, { player });
+  }
+
+  // Handle a player exiting the world
+  private handleOnPlayerExitWorld(player: hz.Player) {
+    if (this.unsavedPlayerIDs.has(player.id)) {
+      this.saveStats(player.id);
+    }
+    this.oobSubs.get(player.id)?.disconnect();
+    this.oobSubs.delete(player.id);
+    this.playerStats.delete(player.id);
+  }
+
+  // Count the race of every ranked player and save their stats right away
+  private handleOnRaceResults(results: RaceResult[]) {
+    const trackName = this.getTrackName();
+    results.forEach((result) => {
+      this.updateStats(result.player, (stats) => {
+        stats.racesStarted++;
+        if (result.finishTime === null) {
+          stats.dnfs++;
+          return;
+        }
+
+        stats.racesFinished++;
+        if (result.position === 1) {
+          stats.wins++;
+        }
+        if (result.position <= 3) {
+          stats.podiums++;
+        }
+        const bestTime = stats.bestTimes[trackName];
+        if (bestTime === undefined || result.finishTime < bestTime) {
+          stats.bestTimes[trackName] = result.finishTime;
+        }
+      });
+    });
+    this.saveUnsavedStats();
+  }
+
+  // Change the stats of a player and tell the stats panels, they are saved later
+  private updateStats(player: hz.Player, update: (stats: CareerStats) => void) {
+    const entry = this.playerStats.get(player.id);
+    if (!entry) {
+      console.warn(`${this.constructor.name} No career stats loaded for ${player.name.get()}`);
+      return;
+    }
+    update(entry.stats);
+    this.unsavedPlayerIDs.add(player.id);
+    this.sendLocalBroadcastEvent(Events.onCareerStatsUpdated, { player });
+  }
+
+  // Read the player's stored stats, starting over if there are none or they have an unknown format
+  private loadStats(player: hz.Player): CareerStats {
+    try {
+      const stats = this.world.persistentStorage.getPlayerVariable<CareerStats>(player, this.props.statsVariableKey);
+      if (stats && stats.version === careerStatsVersion) {
+        return { ...createCareerStats(), ...stats, bestTimes: { ...stats.bestTimes } };
+      }
+    } catch (error) {
+      console.error(`Error retrieving career stats: ${error}`);
+    }
+    return createCareerStats();
+  }
+
+  // Save the stats of every player whose stats changed
+  private saveUnsavedStats() {
+    this.unsavedPlayerIDs.forEach((playerID) => this.saveStats(playerID));
+  }
+
+  // Save the stats of a player to persistent storage
+  private saveStats(playerID: number) {
+    this.unsavedPlayerIDs.delete(playerID);
+    const entry = this.playerStats.get(playerID);
+    if (!entry) {
+      return;
+    }
+    try {
+      this.world.persistentStorage.setPlayerVariable(entry.player, this.props.statsVariableKey, entry.stats);
+    } catch (error) {
+      console.error(`Error saving career stats: ${error}`);
+    }
+  }
+
+  // Dispose of the component, clearing the save interval
+  dispose() {
+    this.async.clearInterval(this.saveIntervalID);
+  }
+}
+
+// Register the CareerStatsManager component with the framework
+hz.Component.register(CareerStatsManager);
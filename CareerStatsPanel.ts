@@ -0,0 +1,68 @@
+/**
+ * Personal career stats panel for the lobby.
+ * Every player sees their own lifetime stats from the CareerStatsManager, refreshed whenever they change.
+ */
+import * as hz from 'horizon/core';
+import { Binding, Text, UIComponent, UINode, View } from 'horizon/ui';
+import { Events } from "Events";
+import { msToMinutesAndSeconds } from 'GameUtils';
+import { CareerStats, CareerStatsManager } from 'CareerStatsManager';
+
+export class CareerStatsPanel extends UIComponent<typeof CareerStatsPanel> {
+  static propsDefinition = {};
+
+  protected readonly panelWidth = 500; // Width of the panel in pixels
+  protected readonly panelHeight = 500; // Height of the panel in pixels
+
+  private titleText = new Binding<string>('Career Stats'); // Title with the name of the viewing player
+  private statsText = new Binding<string>('Loading stats...'); // Stats of the viewing player
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    this.connectLocalBroadcastEvent(Events.onCareerStatsUpdated, (data) => {
+      this.updatePanel(data.player);
+    });
+  }
+
+  // Build the panel with the title and the stats text
+  initializeUI(): UINode {
+    return View({
+      children: [
+        Text({ text: this.titleText, style: { fontSize: 32, color: 'white', fontWeight: 'bold', marginBottom: 12 } }),
+        Text({ text: this.statsText, style: { fontSize: 22, color: 'white' } }),
+      ],
+      style: { backgroundColor: '#202020e0', borderRadius: 12, padding: 16, width: '100%', height: '100%' },
+    });
+  }
+
+  // Show the player their own stats
+  private updatePanel(player: hz.Player) {
+    const stats = CareerStatsManager.getInstance().getStats(player);
+    if (!stats) {
+      return;
+    }
+    this.titleText.set(`${player.name.get()}'s Career`, [player]);
+    this.statsText.set(this.getStatsString(stats), [player]);
+  }
+
+  // Format the stats as one line per stat
+  private getStatsString(stats: CareerStats): string {
+    let statsString = `Races\t${stats.racesStarted}\n`
+      + `Finished\t${stats.racesFinished}\n`
+      + `Wins\t${stats.wins}\n`
+      + `Podiums\t${stats.podiums}\n`
+      + `DNFs\t${stats.dnfs}\n`;
+
+    Object.keys(stats.bestTimes).sort().forEach((trackName) => {
+      statsString += `Best ${trackName}\t${msToMinutesAndSeconds(stats.bestTimes[trackName])}\n`;
+    });
+
+    statsString += `Boosts Used\t${stats.boostsUsed}\n`
+      + `Double Jumps\t${stats.doubleJumps}\n`
+      + `Falls\t${stats.outOfBoundsFalls}\n`;
+    return statsString;
+  }
+}
+
+// Register the CareerStatsPanel component with the framework
+hz.Component.register(CareerStatsPanel);
@@ -0,0 +1,121 @@
+/**
+ * Runs the elimination ("knockout") race mode.
+ * At a fixed interval during the race, the racer in last place is knocked out of the match and sent to the spectator area.
+ * Racers in the danger zone are warned on their HUD before each elimination, and the round ends once a single racer is left.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { GameState, PlayerGameStatus } from 'GameUtils';
+import { MatchManager } from 'MatchManager';
+import { RaceManager } from 'RaceManager';
+
+export class EliminationManager extends hz.Component<typeof EliminationManager> {
+  static propsDefinition = {
+    eliminationIntervalMS: { type: hz.PropTypes.Number, default: 30000 }, // Race time between two eliminations
+    dangerWarningMS: { type: hz.PropTypes.Number, default: 10000 }, // Time before an elimination from which the danger zone is warned
+    dangerZoneSize: { type: hz.PropTypes.Number, default: 1 }, // Number of racers at the back of the race who are in the danger zone
+  };
+
+  private eliminationIntervalID = 0; // Interval ID for checking the next elimination
+  private nextEliminationTimeMS = 0; // Race clock time of the next elimination in milliseconds
+
+  private static s_instance: EliminationManager;
+  public static getInstance(): EliminationManager {
+    return EliminationManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (EliminationManager.s_instance === undefined) {
+      EliminationManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    // Start eliminating racers once the race starts and stop once it is over
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      if (data.fromState === GameState.StartingMatch && data.toState === GameState.PlayingMatch) {
+        this.handleOnMatchStart();
+      } else if (data.fromState === GameState.PlayingMatch) {
+        this.reset();
+      }
+    });
+
+    this.connectNetworkBroadcastEvent(Events.onResetWorld, () => { this.reset(); });
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Start checking for eliminations every second
+  private handleOnMatchStart() {
+    this.reset();
+    this.nextEliminationTimeMS = Math.max(this.props.eliminationIntervalMS, 1000);
+    this.eliminationIntervalID = this.async.setInterval(() => {
+      this.updateElimination();
+    }, 1000);
+  }
+
+  // Warn the danger zone, and knock out the last racer once the elimination time is reached
+  private updateElimination() {
+    const timeLeftMS = this.nextEliminationTimeMS - RaceManager.getInstance().getMatchTime() * 1000;
+    const racers = MatchManager.getInstance().getPlayersWithStatus(PlayerGameStatus.Playing);
+
+    // Only racers still on the track can be eliminated, finishers are safe
+    const racerIDs = new Set(racers.map((player) => player.id));
+    const candidates = RaceManager.getInstance().getRaceResults()
+      .filter((result) => result.finishTime === null && racerIDs.has(result.player.id))
+      .map((result) => result.player);
+
+    if (timeLeftMS <= 0) {
+      this.nextEliminationTimeMS += Math.max(this.props.eliminationIntervalMS, 1000);
+      if (candidates.length > 0 && racers.length > 1) {
+        this.eliminatePlayer(candidates[candidates.length - 1], racers.length - 1);
+      }
+      return;
+    }
+
+    const dangerZone = timeLeftMS <= this.props.dangerWarningMS ? candidates.slice(-Math.max(1, this.props.dangerZoneSize)) : [];
+    racers.forEach((player) => {
+      this.sendNetworkEvent(player, Events.onEliminationWarning, {
+        inDangerZone: dangerZone.includes(player),
+        timeLeftMS,
+      });
+    });
+  }
+
+  // Knock the player out of the match, and end the round if a single racer is left
+  private eliminatePlayer(player: hz.Player, racersLeft: number) {
+    console.log(`${this.constructor.name} Eliminating ${player.name.get()}, ${racersLeft} racers left`);
+    this.sendNetworkEvent(player, Events.onEliminationWarning, { inDangerZone: false, timeLeftMS: 0 });
+    this.sendLocalBroadcastEvent(Events.onEliminatePlayer, { player });
+    this.world.ui.showPopupForPlayer(player, `You have been eliminated!`, 3);
+
+    if (racersLeft <= 1) {
+      const winner = MatchManager.getInstance().getPlayersWithStatus(PlayerGameStatus.Playing)
+        .find((racer) => racer.id !== player.id);
+      if (winner) {
+        RaceManager.getInstance().playerSurvivedRace(winner); // The survivor wins the race
+        this.world.ui.showPopupForEveryone(`${winner.name.get()} survived the knockout!`, 3);
+      }
+      this.sendLocalBroadcastEvent(Events.onEndMatch, {});
+    }
+  }
+
+  // Stop checking for eliminations
+  private reset() {
+    this.async.clearInterval(this.eliminationIntervalID);
+    this.eliminationIntervalID = 0;
+    this.nextEliminationTimeMS = 0;
+  }
+
+  // Dispose method to stop the eliminations when the component is destroyed
+  dispose() { this.reset(); }
+}
+
+// Register the EliminationManager component with the framework
+hz.Component.register(EliminationManager);
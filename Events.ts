@@ -1,5 +1,5 @@
 import * as hz from "horizon/core";
-import { GameState } from "GameUtils";
+import { FalseStartPenalty, GameState, PlayerAbility, RaceResult, ScoreboardRow } from "GameUtils";
 
 /**
  * Events object defines all the local and network events used within the game.
@@ -13,6 +13,12 @@ export const Events = {
   // Event that provides the remaining time before the game starts.
   onGameEndTimeLeft: new hz.LocalEvent<{ timeLeftMS: number }>("onGameEndTimeLeft"),
   // Event that provides the remaining time before the game ends.
+  onMatchEndTimeLeft: new hz.NetworkEvent<{ timeLeftMS: number }>("onMatchEndTimeLeft"),
+  // Network event that provides player HUDs with the remaining time before the match ends, under the active match end rule.
+  onEndMatch: new hz.LocalEvent("onEndMatch"),
+  // Event fired to end the match being played right away, without waiting for the match end rule.
+  onMatchAborted: new hz.LocalEvent("onMatchAborted"),
+  // Event fired just before an admin aborts the match, so its results are not counted.
   onResetWorld: new hz.NetworkEvent("onResetWorld"),
   // Network event that resets the entire game world.
   onResetLocalObjects: new hz.NetworkEvent("onResetLocalObjects"),
@@ -27,10 +33,60 @@ export const Events = {
   // Event fired when a player joins the standby phase before a match starts.
   onPlayerLeftStandby: new hz.LocalEvent<{ player: hz.Player }>("onPlayerLeftStandby"),
   // Event fired when a player leaves the standby phase.
+  onTogglePlayerReady: new hz.LocalEvent<{ player: hz.Player }>("onTogglePlayerReady"),
+  // Event fired to toggle whether a player is ready for the next match, queueing them if the match is full.
   onPlayerLeftMatch: new hz.LocalEvent<{ player: hz.Player }>("onPlayerLeftMatch"),
   // Event fired when a player leaves an ongoing match.
+  onPlayerEnteredGoal: new hz.LocalEvent<{ player: hz.Player }>("onPlayerEnteredGoal"),
+  // Event fired when a player enters the victory trigger, before the race has validated their checkpoints.
   onPlayerReachedGoal: new hz.LocalEvent<{ player: hz.Player, matchTime: number }>("onPlayerReachedGoal"),
   // Event fired when a player reaches the goal in a match.
+  onRaceResults: new hz.LocalEvent<{ results: RaceResult[] }>("onRaceResults"),
+  // Event fired when a match is completed, with the results of every racer in order of position.
+  onScoreboardUpdate: new hz.LocalEvent<{ title: string; rows: ScoreboardRow[] }>("onScoreboardUpdate"),
+  // Event fired to show the standings of the race, or only a title, on the start and finish line scoreboards.
+
+  // False Start Events
+  onPlayerCrossedStartLine: new hz.LocalEvent<{ player: hz.Player }>("onPlayerCrossedStartLine"),
+  // Event fired when a player enters the start line trigger.
+  onPlayerFalseStart: new hz.LocalEvent<{ player: hz.Player, penalty: FalseStartPenalty, timePenaltyMS: number }>("onPlayerFalseStart"),
+  // Event fired when a racer crosses the start line before the match starts, with the penalty they get.
+  onFalseStartPenalty: new hz.NetworkEvent<{ message: string }>("onFalseStartPenalty"),
+  // Network event to announce a false start penalty on the racer's HUD.
+
+  // Relay Events
+  onPlayerEnteredRelayHandoff: new hz.LocalEvent<{ player: hz.Player }>("onPlayerEnteredRelayHandoff"),
+  // Event fired when a player enters the relay hand-off zone, before the race has validated their leg.
+
+  // Elimination Events
+  onEliminatePlayer: new hz.LocalEvent<{ player: hz.Player }>("onEliminatePlayer"),
+  // Event fired to knock a racer out of the match being played.
+  onPlayerEliminated: new hz.LocalEvent<{ player: hz.Player }>("onPlayerEliminated"),
+  // Event fired when a racer has been knocked out of the match and moved to the spectator area.
+  onEliminationWarning: new hz.NetworkEvent<{ inDangerZone: boolean; timeLeftMS: number }>("onEliminationWarning"),
+  // Network event to warn a racer's HUD whether they are in the danger zone of the next elimination.
+
+  // Checkpoint Events
+  onRegisterCheckpoint: new hz.LocalEvent<{ caller: hz.Entity, checkpointIndex: number }>("onRegisterCheckpoint"),
+  // Event fired to register a checkpoint trigger along with its order index on the track.
+  onPlayerEnteredCheckpoint: new hz.LocalEvent<{ player: hz.Player, checkpointIndex: number }>("onPlayerEnteredCheckpoint"),
+  // Event fired when a player enters a checkpoint trigger, before the race has validated the order.
+  onPlayerPassedCheckpoint: new hz.LocalEvent<{ player: hz.Player, checkpointNumber: number, totalCheckpoints: number, matchTime: number }>("onPlayerPassedCheckpoint"),
+  // Event fired when a player passes the next checkpoint in order, checkpointNumber counts from 1.
+  onCheckpointPassed: new hz.NetworkEvent<{ checkpointNumber: number; totalCheckpoints: number; matchTime: number }>("onCheckpointPassed"),
+  // Network event sent to a player's HUD when they pass the next checkpoint in order.
+  onCheckpointSplit: new hz.NetworkEvent<{ splitName: string; splitTime: number; hasBestSplit: boolean; deltaTime: number }>("onCheckpointSplit"),
+  // Network event sent to a player's HUD with their split time at a checkpoint or the goal, and the delta to the same split of their best run.
+
+  // Time Trial Events
+  onRegisterPlayerForTimeTrial: new hz.LocalEvent<{ player: hz.Player }>("onRegisterPlayerForTimeTrial"),
+  // Event fired to register a player for a solo time trial, or to restart their run.
+  onDeregisterPlayerForTimeTrial: new hz.LocalEvent<{ player: hz.Player }>("onDeregisterPlayerForTimeTrial"),
+  // Event fired to deregister a player from their solo time trial.
+  onPlayerFinishedTimeTrial: new hz.LocalEvent<{ player: hz.Player, matchTime: number }>("onPlayerFinishedTimeTrial"),
+  // Event fired when a player finishes a solo time trial run.
+  onTimeTrialTimeUpdate: new hz.NetworkEvent<{ matchTime: number }>("onTimeTrialTimeUpdate"),
+  // Network event to sync a player's HUD timer with their solo time trial run.
 
   // Player Controller Events
   onRegisterPlyrCtrl: new hz.LocalEvent<{ caller: hz.Entity }>("onRegisterPlyrCtrl"),
@@ -47,6 +103,8 @@ export const Events = {
   // Local event fired when a player uses their boost ability.
   onPlayerUsedDoubleJump: new hz.LocalEvent("onPlayerUsedDoubleJump"),
   // Local event fired when a player uses their double jump ability.
+  onPlayerAbilityUsed: new hz.NetworkEvent<{ player: hz.Player, ability: PlayerAbility }>("onPlayerAbilityUsed"),
+  // Network event fired by a player's local controller to tell the server they used their boost or double jump.
 
   // Out of Bounds Events
   onRegisterOOBRespawner: new hz.LocalEvent<{ caller: hz.Entity }>("onRegisterOOBRespawner"),
@@ -61,12 +119,29 @@ export const Events = {
   // Race HUD and Position Update Events
   onRegisterRaceHUD: new hz.LocalEvent<{ caller: hz.Entity }>("onRegisterRaceHUD"),
   // Event fired to register a race HUD entity.
-  onRacePosUpdate: new hz.NetworkEvent<{ playerPos: number; totalRacers: number; matchTime: number }>("onRacePosUpdate"),
-  // Network event to update the player's race position.
+  onRacePosUpdate: new hz.NetworkEvent<{ playerPos: number; totalRacers: number; matchTime: number; currentLap: number; totalLaps: number; currentLeg: number; totalLegs: number; gapToNext: number; gapToLeader: number }>("onRacePosUpdate"),
+  // Network event to update the player's race position, lap, relay leg and estimated time gaps in seconds to the racer ahead and the leader (-1 for the leader). In a relay the position and gaps are the team's.
   onStopRacePosUpdates: new hz.NetworkEvent("onStopRacePosUpdates"),
   // Network event to stop race position updates.
+  onSpectatorRaceUpdate: new hz.NetworkEvent<{ leaderName: string; leaderLap: number; totalLaps: number; racersFinished: number; totalRacers: number; matchTime: number }>("onSpectatorRaceUpdate"),
+  // Network event to update a spectator's HUD with the progress of the race being played.
+  onRegisterProgressStrip: new hz.LocalEvent<{ caller: hz.Entity }>("onRegisterProgressStrip"),
+  // Event fired to register a HUD progress strip entity.
+  onRaceProgressUpdate: new hz.NetworkEvent<{ racerIDs: number[]; progress: number[] }>("onRaceProgressUpdate"),
+  // Network event to update every HUD's progress strip with each racer's progress through the race from 0 to 1, in order of position.
+  onRegisterResultsPanel: new hz.LocalEvent<{ caller: hz.Entity }>("onRegisterResultsPanel"),
+  // Event fired to register a HUD results panel entity.
+  onPersonalRaceResult: new hz.NetworkEvent<{ position: number; totalRacers: number; finished: boolean; finishTime: number; hasPersonalBest: boolean; deltaToPersonalBest: number; deltaToWinner: number; respawns: number; boostsUsed: number; hasStats: boolean; isNewPersonalBest: boolean }>("onPersonalRaceResult"),
+  // Network event sent to each racer's results panel when the match completes; times are in seconds and the deltas only apply to a finish.
+  // The respawns and boosts only count with career stats, hasStats is false without them.
+  onHidePersonalResults: new hz.NetworkEvent("onHidePersonalResults"),
+  // Network event to hide every results panel when the next match starts.
 
   // Leaderboard Event
-  onUpdateLeaderboard: new hz.LocalEvent<{ player: hz.Player, matchTime: number }>("onUpdateLeaderboard")
+  onUpdateLeaderboard: new hz.LocalEvent<{ player: hz.Player, matchTime: number }>("onUpdateLeaderboard"),
   // Event fired to update the leaderboard after a player completes a match.
+
+  // Career Stats Event
+  onCareerStatsUpdated: new hz.LocalEvent<{ player: hz.Player }>("onCareerStatsUpdated")
+  // Event fired when a player's career stats are loaded or change, so the stats panels can show them.
 };
@@ -0,0 +1,112 @@
+/**
+ * Monitors the start line during the StartingMatch countdown and penalizes racers who cross it before "Game On!".
+ * The penalty is configurable: a time penalty added to the finish time, a reset to the start grid, or disqualification.
+ * The MatchManager and RaceManager apply the penalty, and the racer is told about it on their HUD.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { FalseStartPenalty, GameState, PlayerGameStatus } from 'GameUtils';
+import { MatchManager } from 'MatchManager';
+
+export class FalseStartManager extends hz.Component<typeof FalseStartManager> {
+  static propsDefinition = {
+    falseStartPenalty: { type: hz.PropTypes.String, default: 'TimePenalty' }, // TimePenalty, ResetToGrid or Disqualify
+    timePenaltyMS: { type: hz.PropTypes.Number, default: 5000 }, // Time added to the finish time under TimePenalty
+  };
+
+  private lastKnownGameState = GameState.ReadyForMatch; // Keeps track of the current game state
+  private falseStartPenalty = FalseStartPenalty.TimePenalty; // Active penalty for a false start
+  private falseStarters = new Set<number>(); // IDs of the players who have false started in this countdown
+
+  private static s_instance: FalseStartManager;
+  public static getInstance(): FalseStartManager {
+    return FalseStartManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (FalseStartManager.s_instance === undefined) {
+      FalseStartManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize the penalty and event listeners
+  preStart() {
+    this.falseStartPenalty = this.parseFalseStartPenalty(this.props.falseStartPenalty);
+
+    // Only watch the start line while the countdown is running
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      this.lastKnownGameState = data.toState;
+      if (data.toState === GameState.StartingMatch) {
+        this.falseStarters.clear();
+      }
+    });
+
+    this.connectLocalBroadcastEvent(Events.onPlayerCrossedStartLine, (data) => {
+      this.handleOnPlayerCrossedStartLine(data.player);
+    });
+
+    this.connectNetworkBroadcastEvent(Events.onResetWorld, () => {
+      this.lastKnownGameState = GameState.ReadyForMatch;
+      this.falseStarters.clear();
+    });
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Parse the false start penalty property, falling back to a time penalty
+  private parseFalseStartPenalty(penaltyName: string): FalseStartPenalty {
+    const penalty = FalseStartPenalty[penaltyName as keyof typeof FalseStartPenalty];
+    if (penalty === undefined) {
+      console.error(`Unknown false start penalty ${penaltyName}, using ${FalseStartPenalty[FalseStartPenalty.TimePenalty]}`);
+      return FalseStartPenalty.TimePenalty;
+    }
+    return penalty;
+  }
+
+  // Penalize a racer who crossed the start line before the match started
+  private handleOnPlayerCrossedStartLine(player: hz.Player) {
+    if (this.lastKnownGameState !== GameState.StartingMatch) {
+      return;
+    }
+
+    // Only the ready players in standby race when it starts
+    if (MatchManager.getInstance().getPlayerGameStatus(player) !== PlayerGameStatus.Standby) {
+      return;
+    }
+
+    // A racer is only penalized once, but is sent back to the grid every time they cross
+    const repeated = this.falseStarters.has(player.id);
+    if (repeated && this.falseStartPenalty !== FalseStartPenalty.ResetToGrid) {
+      return;
+    }
+    this.falseStarters.add(player.id);
+
+    console.log(`${this.constructor.name} False start by ${player.name.get()}, penalty ${FalseStartPenalty[this.falseStartPenalty]}`);
+    this.sendLocalBroadcastEvent(Events.onPlayerFalseStart, {
+      player,
+      penalty: this.falseStartPenalty,
+      timePenaltyMS: this.falseStartPenalty === FalseStartPenalty.TimePenalty ? this.props.timePenaltyMS : 0,
+    });
+    this.sendNetworkEvent(player, Events.onFalseStartPenalty, { message: this.getPenaltyMessage() });
+  }
+
+  // Describe the penalty for the racer's HUD
+  private getPenaltyMessage(): string {
+    switch (this.falseStartPenalty) {
+      case FalseStartPenalty.TimePenalty:
+        return `False start! +${this.props.timePenaltyMS / 1000}s`;
+      case FalseStartPenalty.ResetToGrid:
+        return `False start! Back to the grid`;
+      case FalseStartPenalty.Disqualify:
+        return `False start! Disqualified`;
+    }
+  }
+}
+
+// Register the FalseStartManager component with the framework
+hz.Component.register(FalseStartManager);
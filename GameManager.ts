@@ -1,11 +1,13 @@
 /**
  * Controls the overall game state of the world, listening to events occurring and transitioning the game state accordingly.
  * Handles different stages of the match, from Ready to Starting, Playing, Ending, and Completed states.
+ * The transition rules and countdowns live in the MatchStateMachine; this component feeds it events and runs its side effects.
  */
 import * as hz from 'horizon/core';
 import { Events } from "Events";
-import { timedIntervalActionFunction, GameState, PlayerGameStatus } from 'GameUtils';
+import { GameState, MatchEndRule, PlayerGameStatus } from 'GameUtils';
 import { MatchManager } from 'MatchManager';
+import { MatchCountdown, MatchRoster, MatchStateMachine } from 'MatchStateMachine';
 
 export class GameManager extends hz.Component<typeof GameManager> {
 
@@ -22,17 +24,23 @@ export class GameManager extends hz.Component<typeof GameManager> {
     minTimeToShowEndPopupsMS: { type: hz.PropTypes.Number, default: 10000 }, // Minimum time to show end popups in milliseconds
 
     playersNeededForMatch: { type: hz.PropTypes.Number, default: 1 }, // Number of players needed to start a match
+    readyPercentageToStart: { type: hz.PropTypes.Number, default: 0 }, // Percentage of the players in the lobby who must be ready to start a match, from 0 to 100
+
+    matchEndRule: { type: hz.PropTypes.String, default: 'FirstFinisher' }, // FirstFinisher, TopFinishers, AllFinished or TimeLimit
+    matchEndFinisherCount: { type: hz.PropTypes.Number, default: 3 }, // Number of finishers that ends the match under TopFinishers
+    raceTimeLimitMS: { type: hz.PropTypes.Number, default: 0 }, // Hard race time limit in milliseconds, 0 for none. Required by TimeLimit
+    allFinishedTimeLimitMS: { type: hz.PropTypes.Number, default: 300000 }, // Race time limit under AllFinished when raceTimeLimitMS is 0
   };
 
-  private currentGameState = GameState.ReadyForMatch; // Tracks the current game state
-  private startMatchTimerID = 0; // Timer ID for match start
-  private endMatchTimerID = 0; // Timer ID for match end
-  private newMatchTimerID = 0; // Timer ID for new match readiness
+  private stateMachine!: MatchStateMachine; // Transition rules and countdowns of the match
 
   private startLineGameStateUI: hz.TextGizmo | null = null; // UI entity for the start line
   private finishLineGameStateUI: hz.TextGizmo | null = null; // UI entity for the finish line
 
   static s_instance: GameManager; // Singleton instance of the GameManager
+  public static getInstance(): GameManager {
+    return GameManager.s_instance;
+  }
 
   constructor() {
     super();
@@ -46,29 +54,42 @@ export class GameManager extends hz.Component<typeof GameManager> {
 
   // Called before the component is fully started
   preStart() {
-    this.currentGameState = GameState.ReadyForMatch;
     this.startLineGameStateUI = this.props.startLineGameStateUI!.as(hz.TextGizmo)!;
     this.finishLineGameStateUI = this.props.finishLineGameStateUI!.as(hz.TextGizmo)!;
+    this.stateMachine = new MatchStateMachine(
+      {
+        timeToMatchStartMS: this.props.timeToMatchStartMS,
+        timeToMatchEndMS: this.props.timeToMatchEndMS,
+        timeNewMatchReadyMS: this.props.timeNewMatchReadyMS,
+        raceTimeLimitMS: this.props.raceTimeLimitMS,
+        allFinishedTimeLimitMS: this.props.allFinishedTimeLimitMS,
+        playersNeededForMatch: this.props.playersNeededForMatch,
+        readyPercentageToStart: this.props.readyPercentageToStart,
+        matchEndRule: this.parseMatchEndRule(this.props.matchEndRule),
+        matchEndFinisherCount: this.props.matchEndFinisherCount,
+      },
+      {
+        setInterval: (callback, intervalMS) => this.async.setInterval(callback, intervalMS),
+        clearInterval: (timerID) => this.async.clearInterval(timerID),
+        now: () => Date.now(),
+      },
+      () => this.getRoster(),
+      {
+        onStateChanged: (fromState, toState) => this.handleOnStateChanged(fromState, toState),
+        onCountdownTick: (countdown, timeLeftMS) => this.handleOnCountdownTick(countdown, timeLeftMS),
+        onMatchAborted: () => this.sendLocalBroadcastEvent(Events.onMatchAborted, {}),
+        onReset: () => this.updateGameStateUI('Ready'),
+      },
+    );
 
     // Event: Trigger when a player joins standby
     this.connectLocalBroadcastEvent(Events.onPlayerJoinedStandby, () => {
-      const totalPlayerStandby = MatchManager.getInstance().getPlayersWithStatus(PlayerGameStatus.Standby).length;
-      if (totalPlayerStandby >= this.props.playersNeededForMatch) {
-        this.transitFromReadyToStarting(); // Start the match if enough players are available
-      }
+      this.stateMachine.playerJoinedStandby();
     });
 
     // Event: Trigger when a player leaves standby
     this.connectLocalBroadcastEvent(Events.onPlayerLeftStandby, () => {
-      const totalPlayerInStandby = MatchManager.getInstance().getPlayersWithStatus(PlayerGameStatus.Standby).length;
-      if (totalPlayerInStandby < this.props.playersNeededForMatch) {
-        // If there are not enough players to start, transition to Ready state
-        if (this.currentGameState === GameState.StartingMatch) {
-          this.transitFromStartingToReady();
-        } else {
-          console.error("Invalid state to transition from");
-        }
-      }
+      this.stateMachine.playerLeftStandby(); // If there are not enough players to start, transition to Ready state
     });
 
     // Event: Handle when the last player leaves the world
@@ -76,108 +97,154 @@ export class GameManager extends hz.Component<typeof GameManager> {
       if (this.world.getPlayers().length === 0) {
         this.sendNetworkBroadcastEvent(Events.onResetWorld, {}); // Reset the world if all players leave
         console.warn("All players left, resetting world");
+        this.stateMachine.reset(); // Reset the game state
       }
-      this.reset(); // Reset the game state
     });
 
     // Event: Trigger when a player reaches the goal
-    this.connectLocalBroadcastEvent(Events.onPlayerReachedGoal, () => {
-      this.transitFromPlayingToEnding(); // Transition from playing state to ending state
+    this.connectLocalBroadcastEvent(Events.onPlayerReachedGoal, (data) => {
+      this.stateMachine.playerReachedGoal(this.getFinisherID(data.player)); // Transition from playing state to ending state if the match end rule is met
+    });
+
+    // Event: Trigger when the match has to end right away
+    this.connectLocalBroadcastEvent(Events.onEndMatch, () => {
+      this.stateMachine.endMatch();
+    });
+
+    // Event: Trigger when a player leaves the match, the remaining racers may all have finished
+    this.connectLocalBroadcastEvent(Events.onPlayerLeftMatch, (data) => {
+      const relayTeams = MatchManager.getInstance().getRelayTeams();
+      if (relayTeams.length === 0) {
+        this.stateMachine.playerLeftMatch(data.player.id);
+        return;
+      }
+      // A relay team only leaves the match with its last runner
+      relayTeams.filter((team) => team.members.length === 0).forEach((team) => {
+        this.stateMachine.playerLeftMatch(team.teamNumber);
+      });
+    });
+
+    // Event: Trigger when a racer is eliminated, the remaining racers may all have finished
+    this.connectLocalBroadcastEvent(Events.onPlayerEliminated, () => {
+      this.stateMachine.playerEliminated();
     });
   }
 
   // Empty start method that can be overridden if necessary
   start() { }
 
-  // General function to transition game states
-  private transitGameState(fromState: GameState, toState: GameState) {
-    if (fromState === toState) {
-      console.warn(`Trying to transit to the same state ${GameState[fromState]}, skipping`);
-      return false;
-    } else if (fromState !== this.currentGameState) {
-      console.warn(`Trying to transit from ${GameState[fromState]} when Current state is ${GameState[this.currentGameState]} `);
-      return false;
-    } else {
-      console.log(`Transiting from ${GameState[fromState]} to ${GameState[toState]}`);
-      this.currentGameState = toState;
-      this.sendLocalBroadcastEvent(Events.onGameStateChanged, { fromState, toState });
-      return true;
+  // Get the current game state
+  public getGameState(): GameState {
+    return this.stateMachine.getState();
+  }
+
+  // Start the match countdown without waiting for enough ready players, or skip the countdown if it is already running
+  public forceStartMatch(): boolean {
+    return this.stateMachine.forceStartMatch();
+  }
+
+  // Abort the match without counting its results, sending everyone back to the lobby
+  public abortMatch(): boolean {
+    return this.stateMachine.abortMatch();
+  }
+
+  // Skip the countdown at the end of the match, or the one before the next match becomes ready
+  public skipEndCountdown(): boolean {
+    return this.stateMachine.skipEndCountdown();
+  }
+
+  // Count the players the state machine checks its guards against
+  private getRoster(): MatchRoster {
+    const matchManager = MatchManager.getInstance();
+    return {
+      standbyCount: matchManager.getPlayersWithStatus(PlayerGameStatus.Standby).length,
+      lobbyCount: matchManager.getPlayersWithStatus(PlayerGameStatus.Lobby).length,
+      racerCount: this.getRacerCount(),
+      matchFull: matchManager.isMatchFull(),
+    };
+  }
+
+  // Count the racers of the current match, a relay team races as one
+  private getRacerCount(): number {
+    const matchManager = MatchManager.getInstance();
+    const relayTeams = matchManager.getRelayTeams();
+    if (relayTeams.length > 0) {
+      return relayTeams.filter((team) => team.members.length > 0).length;
     }
+    return matchManager.getPlayersWithStatus(PlayerGameStatus.Playing).length;
   }
 
-  // Transition from Starting to Ready state
-  private transitFromStartingToReady(): void {
-    const transited = this.transitGameState(GameState.StartingMatch, GameState.ReadyForMatch);
-    if (!transited) return;
-    this.reset();
+  // Get the ID a racer finishes under, the runners of a relay team all finish under their team number
+  private getFinisherID(player: hz.Player): number {
+    const relayTeam = MatchManager.getInstance().getRelayTeams()
+      .find((team) => team.members.some((member) => member.id === player.id));
+    return relayTeam ? relayTeam.teamNumber : player.id;
   }
 
-  // Transition from Completed to Ready state
-  private transitFromCompletedToReady(): void {
-    const transited = this.transitGameState(GameState.CompletedMatch, GameState.ReadyForMatch);
-    if (!transited) return;
-    this.reset();
+  // Parse the match end rule property, falling back to the first finisher rule
+  private parseMatchEndRule(ruleName: string): MatchEndRule {
+    const rule = MatchEndRule[ruleName as keyof typeof MatchEndRule];
+    if (rule === undefined) {
+      console.error(`Unknown match end rule ${ruleName}, using ${MatchEndRule[MatchEndRule.FirstFinisher]}`);
+      return MatchEndRule.FirstFinisher;
+    }
+    if (rule === MatchEndRule.TimeLimit && this.props.raceTimeLimitMS <= 0) {
+      console.error(`Match end rule ${ruleName} needs a race time limit, using ${MatchEndRule[MatchEndRule.FirstFinisher]}`);
+      return MatchEndRule.FirstFinisher;
+    }
+    return rule;
   }
 
-  // Transition from Ready to Starting state
-  private transitFromReadyToStarting(): void {
-    const transited = this.transitGameState(GameState.ReadyForMatch, GameState.StartingMatch);
-    if (!transited) return;
+  // Broadcast the state change to the rest of the world
+  private handleOnStateChanged(fromState: GameState, toState: GameState): void {
+    this.sendLocalBroadcastEvent(Events.onGameStateChanged, { fromState, toState });
+    if (toState === GameState.PlayingMatch) {
+      this.updateGameStateUI(`Game On!`);
+    }
+  }
 
-    // Set a timer for the match to start
-    this.startMatchTimerID = timedIntervalActionFunction(this.props.timeToMatchStartMS, this,
-      (timerMS) => {
+  // Show the countdown on the UI entities, the popups and the player HUDs
+  private handleOnCountdownTick(countdown: MatchCountdown, timerMS: number): void {
+    switch (countdown) {
+      case MatchCountdown.MatchStart: {
         const infoStr = `Match Starting in ${timerMS / 1000}!`;
         this.updateGameStateUI(infoStr);
         this.sendLocalBroadcastEvent(Events.onGameStartTimeLeft, { timeLeftMS: timerMS });
         if (timerMS < this.props.minTimeToShowStartPopupsMS) {
           this.world.ui.showPopupForEveryone(infoStr, 1);
         }
-      },
-      this.transitFromStartingToPlaying.bind(this)
-    );
-  }
-
-  // Transition from Starting to Playing state
-  private transitFromStartingToPlaying(): void {
-    const transited = this.transitGameState(GameState.StartingMatch, GameState.PlayingMatch);
-    if (!transited) return;
-    this.updateGameStateUI(`Game On!`);
-  }
-
-  // Transition from Playing to Ending state
-  private transitFromPlayingToEnding(): void {
-    const transited = this.transitGameState(GameState.PlayingMatch, GameState.EndingMatch);
-    if (!transited) return;
-
-    // Set a timer for the match to end
-    this.endMatchTimerID = timedIntervalActionFunction(this.props.timeToMatchEndMS, this,
-      (timerMS) => {
-        const infoStr = `Match Ending in ${timerMS / 1000}!`;
-        this.updateGameStateUI(infoStr);
+        break;
+      }
+      case MatchCountdown.RaceTimeLimit: {
+        const infoStr = `Race Ending in ${timerMS / 1000}!`;
         if (timerMS < this.props.minTimeToShowEndPopupsMS) {
-          this.world.ui.showPopupForEveryone(infoStr, 1);
+          this.updateGameStateUI(infoStr);
         }
-        this.sendLocalBroadcastEvent(Events.onGameEndTimeLeft, { timeLeftMS: timerMS });
-      },
-      this.transitFromEndingToCompleted.bind(this)
-    );
-  }
-
-  // Transition from Ending to Completed state
-  private transitFromEndingToCompleted(): void {
-    const transited = this.transitGameState(GameState.EndingMatch, GameState.CompletedMatch);
-    if (!transited) return;
-
-    // Set a timer for a new match to become available
-    this.newMatchTimerID = timedIntervalActionFunction(this.props.timeNewMatchReadyMS, this,
-      (timerMS) => {
+        this.broadcastMatchEndTimeLeft(infoStr, timerMS);
+        break;
+      }
+      case MatchCountdown.MatchEnd: {
+        const infoStr = `Match Ending in ${timerMS / 1000}!`;
+        this.updateGameStateUI(infoStr);
+        this.broadcastMatchEndTimeLeft(infoStr, timerMS);
+        break;
+      }
+      case MatchCountdown.NewMatch: {
         const infoStr = `New Match Available in ${timerMS / 1000}!`;
         this.updateGameStateUI(infoStr);
         this.world.ui.showPopupForEveryone(infoStr, this.props.timeNewMatchReadyMS / 1000);
-      },
-      this.transitFromCompletedToReady.bind(this)
-    );
+        break;
+      }
+    }
+  }
+
+  // Announce the time left before the match ends with popups, the player HUDs and the countdown audio
+  private broadcastMatchEndTimeLeft(infoStr: string, timerMS: number): void {
+    if (timerMS < this.props.minTimeToShowEndPopupsMS) {
+      this.world.ui.showPopupForEveryone(infoStr, 1);
+    }
+    this.sendLocalBroadcastEvent(Events.onGameEndTimeLeft, { timeLeftMS: timerMS });
+    this.sendNetworkBroadcastEvent(Events.onMatchEndTimeLeft, { timeLeftMS: timerMS });
   }
 
   // Update the UI entities with the provided text
@@ -186,17 +253,8 @@ export class GameManager extends hz.Component<typeof GameManager> {
     this.finishLineGameStateUI?.text.set(text);
   }
 
-  // Reset the game state and clear all timers
-  private reset() {
-    this.currentGameState = GameState.ReadyForMatch;
-    this.updateGameStateUI('Ready');
-    this.async.clearInterval(this.startMatchTimerID);
-    this.async.clearInterval(this.endMatchTimerID);
-    this.async.clearInterval(this.newMatchTimerID);
-  }
-
   // Dispose method to clean up when the component is destroyed
-  dispose() { this.reset(); }
+  dispose() { this.stateMachine.reset(); }
 }
 
 // Register the component with the framework
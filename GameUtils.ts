@@ -6,22 +6,74 @@
 
 import * as hz from "horizon/core";
 
-// Enumeration representing different game states
-export enum GameState {
-  "ReadyForMatch",    // Default state: nothing is happening, ready to start a match
-  "StartingMatch",    // Players have started a match
-  "PlayingMatch",     // A match is currently ongoing
-  "EndingMatch",      // The match is ending
-  "CompletedMatch",   // The match has just completed
-}
+// Game states and match end rules are defined with the match state machine, which has no Horizon dependencies
+export { GameState, MatchEndRule } from 'MatchStateMachine';
 
 // Enumeration representing the status of a player during a match
 export enum PlayerGameStatus {
   "Lobby",       // Player is in the lobby
   "Standby",     // Player is on standby, ready to play
   "Playing",     // Player is actively playing
+  "Eliminated",  // Player was knocked out of the match and is spectating
+  "Spectating",  // Player joined while a match was running and is queued for the next one
+}
+
+// Enumeration representing how racers are ordered on the start grid
+export enum StartGridOrder {
+  "Qualifying",   // Fastest time trial first, racers without a time at the back
+  "LastResult",   // Order of the last race's results, newcomers at the back
+  "Random",       // Random order
+}
+
+// Enumeration representing the penalty for crossing the start line before the match starts
+export enum FalseStartPenalty {
+  "TimePenalty",   // A time penalty is added to the racer's finish time
+  "ResetToGrid",   // The racer is sent back to their start grid slot
+  "Disqualify",    // The racer is taken out of the match and spectates it
+}
+
+// Enumeration representing the movement abilities a player can use
+export enum PlayerAbility {
+  "Boost",       // Boosted jump granted by a power-up
+  "DoubleJump",  // Second jump in the air
 }
 
+// The result of a racer at the end of a race
+export type RaceResult = {
+  player: hz.Player,         // The racer
+  position: number,          // Final position in the race, starting at 1
+  finishTime: number | null, // Race clock time of the finish in seconds, or null if the racer did not finish
+};
+
+// Enumeration representing the status of a row on the race scoreboards
+export enum ScoreboardStatus {
+  "Finished",      // The racer or relay team reached the goal
+  "DidNotFinish",  // The race ended before the racer or relay team reached the goal
+  "Eliminated",    // The racer was knocked out of the race
+  "Disqualified",  // The racer was taken out of the match for a false start
+}
+
+// A row of the race scoreboards
+export type ScoreboardRow = {
+  rank: number,         // Position in the race, starting at 1, or 0 for disqualified racers
+  name: string,         // Name of the racer, or of the relay team and its runners
+  playerIDs: number[],  // IDs of the players on the row, it is highlighted for them
+  time: number | null,  // Finish time, or time of the racer's last progress, in seconds; null if there is none
+  gap: number | null,   // Time behind the winner in seconds, or null for the winner and racers who did not finish
+  status: ScoreboardStatus,
+  note: string,         // Detail shown with the status, such as a time penalty or the leg a relay team reached
+};
+
+// A scoreboard row formatted for the player viewing the scoreboard
+export type ScoreboardEntry = {
+  rank: string,
+  name: string,
+  time: string,
+  gap: string,
+  status: string,
+  highlighted: boolean, // True if the viewing player is on the row
+};
+
 // A generic Pool class to manage available and active objects
 export class Pool<T> {
   all: T[] = [];         // All items in the pool
@@ -113,6 +165,45 @@ export class Pool<T> {
   }
 }
 
+// Fixed size buffer that overwrites its oldest item once it is full
+export class RingBuffer<T> {
+  private items: T[] = [];   // Stored items, the oldest at the start index once the buffer has wrapped
+  private start = 0;         // Index of the oldest item
+  droppedCount = 0;          // Number of items overwritten since the buffer was last cleared
+
+  constructor(readonly capacity: number) { }
+
+  // Add an item, overwriting the oldest one if the buffer is full
+  push(t: T): void {
+    if (this.capacity <= 0) {
+      this.droppedCount++;
+    } else if (this.items.length < this.capacity) {
+      this.items.push(t);
+    } else {
+      this.items[this.start] = t;
+      this.start = (this.start + 1) % this.capacity;
+      this.droppedCount++;
+    }
+  }
+
+  // Get the stored items, oldest first
+  toArray(): T[] {
+    return this.items.slice(this.start).concat(this.items.slice(0, this.start));
+  }
+
+  // Number of stored items
+  size(): number {
+    return this.items.length;
+  }
+
+  // Remove every item
+  clear(): void {
+    this.items = [];
+    this.start = 0;
+    this.droppedCount = 0;
+  }
+}
+
 // Convert milliseconds to a formatted time string (minutes:seconds:milliseconds)
 export function msToMinutesAndSeconds(time: number): string {
   const baseTime = Math.floor(time);
@@ -123,31 +214,94 @@ export function msToMinutesAndSeconds(time: number): string {
   return `${(minutes < 10 ? '0' : '') + minutes} : ${(seconds < 10 ? '0' : '') + seconds.toFixed(0)} : ${ms.toFixed(2).substring(2)}`;
 }
 
-// Function for setting a timed interval action and ending action
-export function timedIntervalActionFunction(
-  timerMS: number,
-  component: hz.Component,
-  onTickAction: (timerMS: number) => void, // Function to be run during the timer tick
-  onEndAction: () => void // Function to be run at the end of the timer
-): number {
-  let timerID = component.async.setInterval(() => {
-    if (timerMS > 0) {
-      onTickAction(timerMS); // Call the onTick function
-      timerMS -= 1000;
-    } else {
-      if (timerID !== undefined) {
-        onEndAction();
-        component.async.clearInterval(timerID);
-      }
+// Get the number of pages of a scoreboard, at least 1
+export function getScoreboardPageCount(rowCount: number, rowsPerPage: number): number {
+  return Math.max(1, Math.ceil(rowCount / rowsPerPage));
+}
+
+// Get the page of a scoreboard with the player's own row, starting at 0, or the first page if they are not on it
+export function getScoreboardOwnPage(rows: ScoreboardRow[], playerID: number, rowsPerPage: number): number {
+  const index = rows.findIndex((row) => row.playerIDs.includes(playerID));
+  return index >= 0 ? Math.floor(index / rowsPerPage) : 0;
+}
+
+// Format a scoreboard row for the viewing player, highlighting it if they are on it
+export function formatScoreboardEntry(row: ScoreboardRow, viewerID: number): ScoreboardEntry {
+  const status = {
+    [ScoreboardStatus.Finished]: 'Finished',
+    [ScoreboardStatus.DidNotFinish]: 'Did Not Finish',
+    [ScoreboardStatus.Eliminated]: 'Eliminated',
+    [ScoreboardStatus.Disqualified]: 'Disqualified',
+  }[row.status];
+  return {
+    rank: row.rank > 0 ? `${row.rank}` : '-',
+    name: row.name,
+    time: row.time !== null ? msToMinutesAndSeconds(row.time) : '--',
+    gap: row.gap !== null ? `+${row.gap.toFixed(2)}s` : '',
+    status: row.note !== '' ? `${status} (${row.note})` : status,
+    highlighted: row.playerIDs.includes(viewerID),
+  };
+}
+
+// A race clock based on wall-clock timestamps, so elapsed time does not drift with frame deltas
+export class RaceClock {
+  private startTimestampMS: number | null = null; // Wall-clock time the clock was started at
+  private stopTimestampMS: number | null = null; // Wall-clock time the clock was stopped at, if stopped
+
+  // The time source can be swapped out, e.g. for a fake clock
+  constructor(private readonly getNowMS: () => number = () => Date.now()) { }
+
+  // Start the clock from zero
+  start(): void {
+    this.startTimestampMS = this.getNowMS();
+    this.stopTimestampMS = null;
+  }
+
+  // Stop the clock, freezing the elapsed time
+  stop(): void {
+    if (this.isRunning()) {
+      this.stopTimestampMS = this.getNowMS();
     }
-  }, 1000);
+  }
 
-  return timerID;
+  // Reset the clock to its unstarted state
+  reset(): void {
+    this.startTimestampMS = null;
+    this.stopTimestampMS = null;
+  }
+
+  // Check if the clock has been started and not stopped
+  isRunning(): boolean {
+    return this.startTimestampMS !== null && this.stopTimestampMS === null;
+  }
+
+  // Get the elapsed time in seconds, or 0 if the clock has not been started
+  getElapsedSeconds(): number {
+    if (this.startTimestampMS === null) {
+      return 0;
+    }
+    const endTimestampMS = this.stopTimestampMS ?? this.getNowMS();
+    return (endTimestampMS - this.startTimestampMS) / 1000;
+  }
 }
 
-// A class representing a curve, used for interpolation and finding points along a path
+// A class representing a curve, used for interpolation and finding points along a path.
+// The curve is a centripetal Catmull-Rom spline through the control points, parameterised by arc length,
+// so a progress of 0.5 is always half of the distance along the curve regardless of control point spacing.
 export class Curve {
+  private static readonly alpha = 0.5; // Knot parameterisation, 0.5 is centripetal and avoids cusps and self-intersections
+  private static readonly samplesPerSegment = 16; // Number of samples per segment used to build the arc-length table
+  private static readonly minKnotInterval = 1e-4; // Minimum knot interval, guards against coincident control points
+  private static readonly gridCellSegments = 4; // Grid cell size of the closest-point index, in average sample segment lengths
+  private static readonly warmStartWindowSegments = 8; // Sample segments searched either side of a warm-start progress
+  private static readonly warmStartTolerance = 2; // Extra distance a warm-started match may be from the target over the global best
+
   private _controlPoints: hz.Vec3[] = []; // Control points for the curve
+  private _length = 0; // Total arc length of the curve
+  private arcLengthParams: number[] = []; // Spline parameters (segment index + local t) of the arc-length table samples
+  private arcLengths: number[] = []; // Cumulative arc length at each arc-length table sample
+  private arcLengthPoints: hz.Vec3[] = []; // Points on the curve at each arc-length table sample
+  private segmentGrid: CurveSegmentGrid | null = null; // Spatial index over the segments between arc-length table samples
 
   public get controlPoints(): hz.Vec3[] {
     return this._controlPoints;
@@ -157,39 +311,147 @@ export class Curve {
     this._controlPoints = value;
   }
 
+  // Total arc length of the curve in world units
+  public get length(): number {
+    return this._length;
+  }
+
   constructor(controlPoints: hz.Vec3[]) {
     this.controlPoints = controlPoints;
+    this.buildArcLengthTable();
+    if (this.arcLengthPoints.length > 1) {
+      const cellSize = Math.max(this._length / (this.arcLengthPoints.length - 1) * Curve.gridCellSegments, 1e-3);
+      this.segmentGrid = new CurveSegmentGrid(this.arcLengthPoints, cellSize);
+    }
   }
 
-  // Interpolate the curve at a specific point t (0 to 1)
+  // Interpolate the curve at a specific point t (0 to 1), where t is the fraction of the curve's arc length
   interpolate(t: number): hz.Vec3 {
-    const n = this.controlPoints.length - 1;
-    const index = Math.floor(t * n);
-    const t0 = index > 0 ? index / n : 0;
-    const t1 = (index + 1) / n;
-    const tNormalized = (t - t0) / (t1 - t0);
-
-    // Uses Catmull-Rom interpolation to find the point at t
-    return this.interpolateCatmullRom(
-      this.controlPoints[Math.max(0, index > 1 ? index - 1 : 0)],
-      this.controlPoints[index],
-      this.controlPoints[Math.min(n, index < n ? index + 1 : this.controlPoints.length - 1)],
-      this.controlPoints[Math.min(n, index < n - 1 ? index + 2 : this.controlPoints.length - 1)],
-      tNormalized
-    );
-  }
-
-  // Find the closest point on the curve to a target point
-  findClosestPointCurveProgress(target: hz.Vec3): number {
+    return this.interpolateSpline(this.arcLengthToSplineParam(t * this._length));
+  }
+
+  // Find the progress (0 to 1) of the closest point on the curve to a target point.
+  // The closest sample segment is found through the spatial index, then refined on the curve itself.
+  // If a hint progress is given, e.g. the previous progress of a racer, a match near it is preferred over
+  // an equally close one elsewhere, which keeps progress stable where the track loops back on itself.
+  findClosestPointCurveProgress(target: hz.Vec3, hintProgress?: number): number {
+    if (!this.segmentGrid) {
+      return 0;
+    }
+
+    let closest = this.segmentGrid.findClosestSegment(target);
+    if (hintProgress !== undefined) {
+      const local = this.findClosestSegmentNear(target, hintProgress);
+      if (local && (!closest || Math.sqrt(local.distanceSquared) <= Math.sqrt(closest.distanceSquared) + Curve.warmStartTolerance)) {
+        closest = local;
+      }
+    }
+    if (!closest) {
+      return 0;
+    }
+
+    // Refine on the curve within the neighbouring sample segments of the closest one
+    const lastSegment = this.arcLengths.length - 2;
+    const fromProgress = this.arcLengths[Math.max(closest.segmentIndex - 1, 0)] / this._length;
+    const toProgress = this.arcLengths[Math.min(closest.segmentIndex + 1, lastSegment) + 1] / this._length;
     const f = (t: number) => {
       const point = this.interpolate(t);
       return this.calculateDistance(target, point);
     };
-    const tMin = this.goldenSectionSearch(f, 0, 1, 1e-4); // Use Golden Section Search for optimization
-    return tMin;
+    return this.goldenSectionSearch(f, fromProgress, toProgress, 1e-6); // Use Golden Section Search for optimization
+  }
+
+  // Find the closest sample segment to a target point within a window around a progress
+  private findClosestSegmentNear(target: hz.Vec3, progress: number): ClosestSegment | null {
+    const distance = Math.min(Math.max(progress, 0), 1) * this._length;
+    const centerIndex = Math.max(this.arcLengths.findIndex((length) => length >= distance) - 1, 0);
+    const fromIndex = Math.max(centerIndex - Curve.warmStartWindowSegments, 0);
+    const toIndex = Math.min(centerIndex + Curve.warmStartWindowSegments, this.arcLengthPoints.length - 2);
+
+    let closest: ClosestSegment | null = null;
+    for (let i = fromIndex; i <= toIndex; i++) {
+      const distanceSquared = distanceSquaredToSegment(target, this.arcLengthPoints[i], this.arcLengthPoints[i + 1]);
+      if (!closest || distanceSquared < closest.distanceSquared) {
+        closest = { segmentIndex: i, distanceSquared };
+      }
+    }
+    return closest;
+  }
+
+  // Number of spline segments between the control points
+  private get segmentCount(): number {
+    return Math.max(0, this.controlPoints.length - 1);
+  }
+
+  // Sample the spline densely and accumulate the distance travelled between samples
+  private buildArcLengthTable(): void {
+    let prevPoint = this.interpolateSpline(0);
+    this.arcLengthParams = [0];
+    this.arcLengths = [0];
+    this.arcLengthPoints = [prevPoint];
+    this._length = 0;
+
+    const sampleCount = this.segmentCount * Curve.samplesPerSegment;
+    for (let i = 1; i <= sampleCount; i++) {
+      const splineParam = i / Curve.samplesPerSegment;
+      const point = this.interpolateSpline(splineParam);
+      this._length += point.distance(prevPoint);
+      this.arcLengthParams.push(splineParam);
+      this.arcLengths.push(this._length);
+      this.arcLengthPoints.push(point);
+      prevPoint = point;
+    }
+  }
+
+  // Convert a distance along the curve to a spline parameter using the arc-length table
+  private arcLengthToSplineParam(distance: number): number {
+    if (this._length <= 0) {
+      return 0;
+    }
+    distance = Math.min(Math.max(distance, 0), this._length);
+
+    // Binary search for the last table sample before the distance
+    let low = 0;
+    let high = this.arcLengths.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (this.arcLengths[mid] <= distance) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    // Linearly interpolate the spline parameter between the two surrounding samples
+    const span = this.arcLengths[high] - this.arcLengths[low];
+    const fraction = span > 0 ? (distance - this.arcLengths[low]) / span : 0;
+    return this.arcLengthParams[low] + (this.arcLengthParams[high] - this.arcLengthParams[low]) * fraction;
+  }
+
+  // Interpolate the spline at a spline parameter, where the integer part is the segment index and the fraction is the local t
+  private interpolateSpline(splineParam: number): hz.Vec3 {
+    const points = this.controlPoints;
+    if (points.length === 0) {
+      return hz.Vec3.zero;
+    } else if (points.length === 1) {
+      return points[0].clone();
+    }
+
+    const n = this.segmentCount;
+    splineParam = Math.min(Math.max(splineParam, 0), n);
+    const index = Math.min(Math.floor(splineParam), n - 1);
+    const t = splineParam - index;
+
+    const p1 = points[index];
+    const p2 = points[index + 1];
+    // Mirror the neighbouring point at the ends of the curve so the first and last segments have a tangent
+    const p0 = index > 0 ? points[index - 1] : p1.mul(2).sub(p2);
+    const p3 = index + 2 <= n ? points[index + 2] : p2.mul(2).sub(p1);
+
+    return this.interpolateCatmullRom(p0, p1, p2, p3, t);
   }
 
-  // Catmull-Rom spline interpolation between four points
+  // Centripetal Catmull-Rom spline interpolation between p1 and p2, using the Barry-Goldman pyramidal formulation
   private interpolateCatmullRom(
     p0: hz.Vec3,
     p1: hz.Vec3,
@@ -197,14 +459,23 @@ export class Curve {
     p3: hz.Vec3,
     t: number
   ): hz.Vec3 {
-    const t2 = t * t;
-    const t3 = t2 * t;
-
-    const x = 2 * p1.x - 2 * p2.x + (p2.x - p0.x) * 0.5 + (p3.x - p1.x) * 0.5;
-    const y = 2 * p1.y - 2 * p2.y + (p2.y - p0.y) * 0.5 + (p3.y - p1.y) * 0.5;
-    const z = 2 * p1.z - 2 * p2.z + (p2.z - p0.z) * 0.5 + (p3.z - p1.z) * 0.5;
-
-    return new hz.Vec3(x * t3 + y * t2 + z * t + p1.x, p1.y, p1.z);
+    const knot = (ti: number, a: hz.Vec3, b: hz.Vec3) =>
+      ti + Math.max(Math.pow(a.distance(b), Curve.alpha), Curve.minKnotInterval);
+    const t0 = 0;
+    const t1 = knot(t0, p0, p1);
+    const t2 = knot(t1, p1, p2);
+    const t3 = knot(t2, p2, p3);
+    const u = t1 + (t2 - t1) * t;
+
+    const lerp = (a: hz.Vec3, b: hz.Vec3, ta: number, tb: number) =>
+      a.mul((tb - u) / (tb - ta)).add(b.mul((u - ta) / (tb - ta)));
+
+    const a1 = lerp(p0, p1, t0, t1);
+    const a2 = lerp(p1, p2, t1, t2);
+    const a3 = lerp(p2, p3, t2, t3);
+    const b1 = lerp(a1, a2, t0, t2);
+    const b2 = lerp(a2, a3, t1, t3);
+    return lerp(b1, b2, t1, t2);
   }
 
   // Golden Section Search for finding the closest point on the curve
@@ -237,6 +508,116 @@ export class Curve {
   }
 }
 
+// The closest line segment between two curve samples, and the squared distance to it
+type ClosestSegment = { segmentIndex: number, distanceSquared: number };
+
+// Squared distance from a point to the line segment between a and b
+function distanceSquaredToSegment(point: hz.Vec3, a: hz.Vec3, b: hz.Vec3): number {
+  const ab = b.sub(a);
+  const lengthSquared = ab.magnitudeSquared();
+  const t = lengthSquared > 0 ? Math.min(Math.max(point.sub(a).dot(ab) / lengthSquared, 0), 1) : 0;
+  return point.distanceSquared(a.add(ab.mul(t)));
+}
+
+// A uniform grid over the line segments between consecutive curve samples.
+// Finds the globally closest segment to a point by searching outwards from the point's cell,
+// stopping as soon as no unsearched cell can hold anything closer.
+class CurveSegmentGrid {
+  private cells = new Map<string, number[]>(); // Indices of the segments overlapping each cell
+  private minCell = { x: 0, y: 0, z: 0 }; // Lowest cell coordinates holding a segment
+  private maxCell = { x: 0, y: 0, z: 0 }; // Highest cell coordinates holding a segment
+  private visitedQuery: number[] = []; // Last query each segment was tested in, to test it once per query
+  private queryCount = 0; // Number of queries made, used to tell queries apart
+
+  constructor(private readonly points: hz.Vec3[], private readonly cellSize: number) {
+    this.minCell = this.toCell(points[0]);
+    this.maxCell = this.toCell(points[0]);
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = this.toCell(points[i]);
+      const b = this.toCell(points[i + 1]);
+      // Add the segment to every cell its bounding box overlaps
+      for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) {
+        for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+          for (let z = Math.min(a.z, b.z); z <= Math.max(a.z, b.z); z++) {
+            const key = this.toKey(x, y, z);
+            const cell = this.cells.get(key);
+            if (cell) {
+              cell.push(i);
+            } else {
+              this.cells.set(key, [i]);
+            }
+            this.minCell = { x: Math.min(this.minCell.x, x), y: Math.min(this.minCell.y, y), z: Math.min(this.minCell.z, z) };
+            this.maxCell = { x: Math.max(this.maxCell.x, x), y: Math.max(this.maxCell.y, y), z: Math.max(this.maxCell.z, z) };
+          }
+        }
+      }
+      this.visitedQuery.push(-1);
+    }
+  }
+
+  // Find the segment closest to the target point
+  findClosestSegment(target: hz.Vec3): ClosestSegment | null {
+    const query = ++this.queryCount;
+    const c = this.toCell(target);
+    const maxRing = Math.max(
+      Math.abs(c.x - this.minCell.x), Math.abs(c.x - this.maxCell.x),
+      Math.abs(c.y - this.minCell.y), Math.abs(c.y - this.maxCell.y),
+      Math.abs(c.z - this.minCell.z), Math.abs(c.z - this.maxCell.z));
+
+    let closestIndex = -1;
+    let closestDistanceSquared = Infinity;
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Search the shell of cells at this ring distance, clamped to the cells that hold segments
+      for (let x = Math.max(c.x - ring, this.minCell.x); x <= Math.min(c.x + ring, this.maxCell.x); x++) {
+        for (let y = Math.max(c.y - ring, this.minCell.y); y <= Math.min(c.y + ring, this.maxCell.y); y++) {
+          for (let z = Math.max(c.z - ring, this.minCell.z); z <= Math.min(c.z + ring, this.maxCell.z); z++) {
+            if (Math.max(Math.abs(x - c.x), Math.abs(y - c.y), Math.abs(z - c.z)) !== ring) {
+              continue;
+            }
+            const cell = this.cells.get(this.toKey(x, y, z));
+            if (!cell) {
+              continue;
+            }
+            for (const i of cell) {
+              if (this.visitedQuery[i] === query) {
+                continue;
+              }
+              this.visitedQuery[i] = query;
+              const distanceSquared = distanceSquaredToSegment(target, this.points[i], this.points[i + 1]);
+              if (distanceSquared < closestDistanceSquared) {
+                closestIndex = i;
+                closestDistanceSquared = distanceSquared;
+              }
+            }
+          }
+        }
+      }
+
+      // Every cell in the next ring is at least this far away from the target
+      const nextRingDistance = ring * this.cellSize;
+      if (closestDistanceSquared <= nextRingDistance * nextRingDistance) {
+        break;
+      }
+    }
+    return closestIndex >= 0 ? { segmentIndex: closestIndex, distanceSquared: closestDistanceSquared } : null;
+  }
+
+  // Get the grid cell coordinates of a point
+  private toCell(point: hz.Vec3): { x: number, y: number, z: number } {
+    return {
+      x: Math.floor(point.x / this.cellSize),
+      y: Math.floor(point.y / this.cellSize),
+      z: Math.floor(point.z / this.cellSize),
+    };
+  }
+
+  // Get the map key of a grid cell
+  private toKey(x: number, y: number, z: number): string {
+    return `${x},${y},${z}`;
+  }
+}
+
 // A component to visualize the curve using trail gizmos
 export class CurveVisualizer extends hz.Component<typeof CurveVisualizer> {
   static propsDefinition = {
@@ -0,0 +1,320 @@
+/**
+ * Manages personal-best ghost racers for time-trial practice.
+ * When a racer beats their stored best time, the path the RaceManager sampled during their run is compressed and saved to persistent storage
+ * once the match completes, so the runs of an aborted match are never saved.
+ * In the next race, a ghost only visible to that racer replays their personal-best run in sync with the race clock.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { GameState, PlayerGameStatus, Pool } from 'GameUtils';
+import { MatchManager } from 'MatchManager';
+import { RaceManager, RacePathSample } from 'RaceManager';
+import * as MathUtils from 'MathUtils';
+
+// A personal-best run as stored in persistent storage.
+// Positions are delta encoded in centimeters as x, y, z triplets and yaws are in whole degrees, one sample per interval.
+type GhostRecord = {
+  version: number,
+  finishTime: number,
+  sampleIntervalMS: number,
+  positions: number[],
+  yaws: number[],
+};
+
+// A ghost currently replaying a personal-best run for its player
+type ActiveGhost = {
+  player: hz.Player,
+  entity: hz.Entity,
+  positions: hz.Vec3[],
+  yaws: number[], // Yaw of each sample in radians
+  sampleInterval: number, // Time between samples in seconds
+};
+
+const ghostRecordVersion = 1; // Version of the stored ghost format, records of other versions are ignored
+
+export class GhostRaceManager extends hz.Component<typeof GhostRaceManager> {
+  static propsDefinition = {
+    ghostsParent: { type: hz.PropTypes.Entity }, // Entity that holds all the ghost entities as children
+    ghostVariableKey: { type: hz.PropTypes.String, default: 'SkylineSprint:ghostBest' }, // Persistent player variable storing the best run
+    ghostSampleIntervalMS: { type: hz.PropTypes.Number, default: 250 }, // Interval between the stored ghost samples
+  };
+
+  private ghostPool = new Pool<hz.Entity>(); // Pool of available ghost entities
+  private activeGhosts = new Map<number, ActiveGhost>(); // Maps player IDs to the ghost replaying their best run
+  private bestRecords = new Map<number, GhostRecord | null>(); // Maps player IDs to their stored best run, loaded at race start
+  private newRecords = new Map<number, { player: hz.Player, record: GhostRecord }>(); // Maps player IDs to the new best runs saved when the match completes
+
+  private static s_instance: GhostRaceManager;
+  public static getInstance(): GhostRaceManager {
+    return GhostRaceManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (GhostRaceManager.s_instance === undefined) {
+      GhostRaceManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize the ghost pool and event listeners
+  preStart() {
+    this.props.ghostsParent?.children.get().forEach((ghost) => {
+      ghost.visible.set(false);
+      this.ghostPool.addToPool(ghost);
+    });
+
+    // Start replaying ghosts when the race starts and release them once it is over
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      if (data.fromState === GameState.StartingMatch && data.toState === GameState.PlayingMatch) {
+        this.handleOnMatchStart();
+      } else if (data.toState === GameState.CompletedMatch) {
+        this.saveNewRecords();
+        this.reset();
+      } else if (data.toState === GameState.ReadyForMatch) {
+        this.reset();
+      }
+    });
+
+    // The runs of an aborted match are not saved
+    this.connectLocalBroadcastEvent(Events.onMatchAborted, () => {
+      this.newRecords.clear();
+    });
+
+    // Save the run of a player who beat their best time
+    this.connectLocalBroadcastEvent(Events.onPlayerReachedGoal, (data) => {
+      this.handleOnPlayerReachedGoal(data.player, data.matchTime);
+    });
+
+    // Release the ghost of a player who left the match
+    this.connectLocalBroadcastEvent(Events.onPlayerLeftMatch, (data) => {
+      this.releaseGhost(data.player);
+      this.bestRecords.delete(data.player.id);
+      this.newRecords.delete(data.player.id);
+    });
+
+    // Release the ghost of a player who was eliminated
+    this.connectLocalBroadcastEvent(Events.onPlayerEliminated, (data) => {
+      this.releaseGhost(data.player);
+    });
+
+    // Move every active ghost along its run in sync with the race clock
+    this.connectLocalBroadcastEvent(hz.World.onUpdate, () => {
+      if (this.activeGhosts.size === 0) {
+        return;
+      }
+      const matchTime = RaceManager.getInstance().getMatchTime();
+      this.activeGhosts.forEach((ghost) => {
+        this.updateGhost(ghost, matchTime);
+      });
+    });
+
+    this.connectNetworkBroadcastEvent(Events.onResetWorld, () => { this.reset(); });
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Load the best run of every racer and assign a ghost to those that have one, relay legs are not personal runs
+  private handleOnMatchStart() {
+    if (MatchManager.getInstance().getRelayTeams().length > 0) {
+      return;
+    }
+
+    const players = MatchManager.getInstance().getPlayersWithStatus(PlayerGameStatus.Playing);
+    players.forEach((player) => {
+      const record = this.loadBestRecord(player);
+      this.bestRecords.set(player.id, record);
+      if (record) {
+        this.assignGhost(player, record);
+      }
+    });
+  }
+
+  // Keep the player's run as their new best if they beat their stored best time, it is saved when the match completes
+  private handleOnPlayerReachedGoal(player: hz.Player, finishTime: number) {
+    if (RaceManager.getInstance().isRelayRace()) {
+      return;
+    }
+
+    const bestRecord = this.bestRecords.has(player.id) ? this.bestRecords.get(player.id)! : this.loadBestRecord(player);
+    if (bestRecord && bestRecord.finishTime <= finishTime) {
+      return;
+    }
+
+    const participant = RaceManager.getInstance().getRaceParticipant(player);
+    if (!participant || participant.pathSamples.length === 0) {
+      console.warn(`${this.constructor.name} No path recorded for ${player.name.get()}`);
+      return;
+    }
+
+    const record = encodeGhostRecord(participant.pathSamples, finishTime, this.props.ghostSampleIntervalMS);
+    this.newRecords.set(player.id, { player, record });
+  }
+
+  // Save the new best runs of the completed match
+  private saveNewRecords() {
+    this.newRecords.forEach(({ player, record }) => {
+      try {
+        this.world.persistentStorage.setPlayerVariable(player, this.props.ghostVariableKey, record);
+        console.log(`${this.constructor.name} Saved new best run for ${player.name.get()}: ${record.finishTime}`);
+      } catch (error) {
+        console.error(`Error saving best run: ${error}`);
+      }
+    });
+    this.newRecords.clear();
+  }
+
+  // Read the player's stored best run, ignoring records of an unknown format
+  private loadBestRecord(player: hz.Player): GhostRecord | null {
+    try {
+      const record = this.world.persistentStorage.getPlayerVariable<GhostRecord>(player, this.props.ghostVariableKey);
+      if (record && record.version === ghostRecordVersion && record.yaws.length > 0) {
+        return record;
+      }
+    } catch (error) {
+      console.error(`Error retrieving best run: ${error}`);
+    }
+    return null;
+  }
+
+  // Take a ghost from the pool and make it visible only to its player
+  private assignGhost(player: hz.Player, record: GhostRecord) {
+    const entity = this.ghostPool.getNextAvailable();
+    if (!entity) {
+      console.warn(`${this.constructor.name} No ghost available for ${player.name.get()}`);
+      return;
+    }
+
+    const ghost: ActiveGhost = {
+      player,
+      entity,
+      ...decodeGhostRecord(record),
+    };
+    this.activeGhosts.set(player.id, ghost);
+
+    this.updateGhost(ghost, 0);
+    entity.visible.set(true);
+    entity.setVisibilityForPlayers([player], hz.PlayerVisibilityMode.VisibleTo);
+  }
+
+  // Hide the player's ghost and return it to the pool
+  private releaseGhost(player: hz.Player) {
+    const ghost = this.activeGhosts.get(player.id);
+    if (ghost) {
+      ghost.entity.visible.set(false);
+      ghost.entity.resetVisibilityForPlayers();
+      this.ghostPool.addToPool(ghost.entity);
+      this.activeGhosts.delete(player.id);
+    }
+  }
+
+  // Place the ghost where the run was at the given race clock time, it waits at the finish once the run is over
+  private updateGhost(ghost: ActiveGhost, matchTime: number) {
+    const lastIndex = ghost.positions.length - 1;
+    const sampleTime = Math.min(Math.max(matchTime / ghost.sampleInterval, 0), lastIndex);
+    const index = Math.min(Math.floor(sampleTime), Math.max(lastIndex - 1, 0));
+    const nextIndex = Math.min(index + 1, lastIndex);
+    const fraction = sampleTime - index;
+
+    const from = ghost.positions[index];
+    const to = ghost.positions[nextIndex];
+    ghost.entity.position.set(from.add(to.sub(from).mul(fraction)));
+
+    const yaw = lerpAngle(ghost.yaws[index], ghost.yaws[nextIndex], fraction);
+    ghost.entity.rotation.set(hz.Quaternion.fromAxisAngle(hz.Vec3.up, yaw));
+  }
+
+  // Release all ghosts and forget the loaded records
+  private reset() {
+    Array.from(this.activeGhosts.values()).forEach((ghost) => {
+      this.releaseGhost(ghost.player);
+    });
+    this.bestRecords.clear();
+    this.newRecords.clear();
+  }
+
+  // Dispose method to release the ghosts when the component is destroyed
+  dispose() { this.reset(); }
+}
+
+// Register the GhostRaceManager component with the framework
+hz.Component.register(GhostRaceManager);
+
+/**
+ * Compresses a sampled run into a ghost record, resampling it at a fixed interval up to the finish time.
+ * @param samples The samples of the run, in race clock order.
+ * @param finishTime The race clock time of the finish in seconds.
+ * @param sampleIntervalMS The interval between the stored samples.
+ * @returns The ghost record to store.
+ */
+function encodeGhostRecord(samples: RacePathSample[], finishTime: number, sampleIntervalMS: number): GhostRecord {
+  const record: GhostRecord = {
+    version: ghostRecordVersion,
+    finishTime,
+    sampleIntervalMS,
+    positions: [],
+    yaws: [],
+  };
+
+  const sampleCount = Math.ceil(finishTime * 1000 / sampleIntervalMS) + 1;
+  let prev = [0, 0, 0];
+  let sampleIndex = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const time = Math.min(i * sampleIntervalMS / 1000, finishTime);
+
+    // Find the recorded samples surrounding this time and interpolate between them
+    while (sampleIndex < samples.length - 2 && samples[sampleIndex + 1].time <= time) {
+      sampleIndex++;
+    }
+    const from = samples[sampleIndex];
+    const to = samples[Math.min(sampleIndex + 1, samples.length - 1)];
+    const span = to.time - from.time;
+    const fraction = span > 0 ? Math.min(Math.max((time - from.time) / span, 0), 1) : 0;
+    const position = from.position.add(to.position.sub(from.position).mul(fraction));
+
+    const quantized = [Math.round(position.x * 100), Math.round(position.y * 100), Math.round(position.z * 100)];
+    record.positions.push(quantized[0] - prev[0], quantized[1] - prev[1], quantized[2] - prev[2]);
+    prev = quantized;
+
+    const rotation = fraction < 0.5 ? from.rotation : to.rotation;
+    const forward = MathUtils.getForward(rotation);
+    const flatForward = new hz.Vec3(forward.x, 0, forward.z);
+    record.yaws.push(Math.round(MathUtils.getClockwiseAngle(hz.Vec3.forward, flatForward) * MathUtils.Rad2Deg));
+  }
+  return record;
+}
+
+/**
+ * Expands a ghost record back into positions and yaws.
+ * @param record The stored ghost record.
+ * @returns The positions, yaws in radians and time between samples in seconds.
+ */
+function decodeGhostRecord(record: GhostRecord): { positions: hz.Vec3[], yaws: number[], sampleInterval: number } {
+  const positions: hz.Vec3[] = [];
+  let x = 0, y = 0, z = 0;
+  for (let i = 0; i + 2 < record.positions.length; i += 3) {
+    x += record.positions[i];
+    y += record.positions[i + 1];
+    z += record.positions[i + 2];
+    positions.push(new hz.Vec3(x / 100, y / 100, z / 100));
+  }
+  return {
+    positions,
+    yaws: record.yaws.map((yaw) => yaw * MathUtils.Deg2Rad),
+    sampleInterval: record.sampleIntervalMS / 1000,
+  };
+}
+
+// Interpolate between two angles in radians along the shortest way around
+function lerpAngle(from: number, to: number, fraction: number): number {
+  let delta = (to - from) % (2 * Math.PI);
+  if (delta > Math.PI) {
+    delta -= 2 * Math.PI;
+  } else if (delta < -Math.PI) {
+    delta += 2 * Math.PI;
+  }
+  return from + delta * fraction;
+}
@@ -13,6 +13,7 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
     superIcon: { type: hz.PropTypes.Entity }, // Entity representing the main HUD icon
     timerText: { type: hz.PropTypes.Entity }, // Entity for displaying the race timer text
     positionText: { type: hz.PropTypes.Entity }, // Entity for displaying the player's race position
+    splitText: { type: hz.PropTypes.Entity }, // Entity next to the timer for flashing checkpoint split times
     iconColorEntity: { type: hz.PropTypes.Entity }, // Entity for the boost icon color
     vfx: { type: hz.PropTypes.Entity }, // Visual effects for when boost is used
   };
@@ -26,11 +27,36 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
   private playerBoostSub: hz.EventSubscription | null = null;
   private stopRacePosUpdatesSub: hz.EventSubscription | null = null;
   private racePosUpdateSub: hz.EventSubscription | null = null;
+  private timeTrialTimeUpdateSub: hz.EventSubscription | null = null;
+  private spectatorRaceUpdateSub: hz.EventSubscription | null = null;
+  private matchEndTimeLeftSub: hz.EventSubscription | null = null;
+  private eliminationWarningSub: hz.EventSubscription | null = null;
+  private falseStartPenaltySub: hz.EventSubscription | null = null;
+  private checkpointSplitSub: hz.EventSubscription | null = null;
   private playerUsedBoostSub: hz.EventSubscription | null = null;
   private worldUpdateSub: hz.EventSubscription | null = null;
 
   private racePosition: string = "";
+  private matchEndTimeLeft: string = "";
+  private eliminationWarning: string = "";
+  private falseStartPenalty: string = "";
   private matchTime: string = "";
+  private raceGaps: string = "";
+
+  // Time gaps in seconds to the racer ahead and the leader from the last race update, -1 when leading
+  private gapToNext = -1;
+  private gapToLeader = -1;
+  private gapToNextRate = 0; // Change of the gap to the racer ahead per second, so it counts down between updates
+  private gapToLeaderRate = 0; // Change of the gap to the leader per second
+  private timeSinceGapUpdate = 0; // Seconds since the last race update
+  private gapRacePos = 0; // Race position of the last race update, the gap rates restart when it changes
+
+  // Checkpoint split shown next to the timer
+  private split: string = ""; // Split text without the flash size, empty when no split is shown
+  private splitShownTime = 0; // Seconds the split has been shown
+  private splitDisplayTime = 3; // Seconds a split stays on the HUD
+  private splitFlashTime = 0.4; // Seconds the split takes to shrink from its flash size
+  private splitFlashSize = 140; // Text size of a new split in percent
 
   // Colors for boost icon status
   private boostInactiveColor = new hz.Color(1, 0, 0); // Red color when boost is inactive
@@ -41,6 +67,7 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
   private innerIcon: hz.Entity | null = null;
   private timerTextGizmo: hz.TextGizmo | null = null;
   private positionTextGizmo: hz.TextGizmo | null = null;
+  private splitTextGizmo: hz.TextGizmo | null = null;
 
   // Properties for managing the boost spin effect
   private shouldSpinStar: boolean = false;
@@ -66,6 +93,9 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
     if (!this.positionTextGizmo) {
       this.positionTextGizmo = this.props.positionText!.as(hz.TextGizmo);
     }
+    if (!this.splitTextGizmo) {
+      this.splitTextGizmo = this.props.splitText?.as(hz.TextGizmo) ?? null;
+    }
 
     // Set the owner to the entity's owner and adjust visibility accordingly
     this.owner = this.entity.owner.get();
@@ -93,6 +123,10 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
         Events.onStopRacePosUpdates,
         () => {
           this.updateUI = false;
+          this.eliminationWarning = "";
+          this.matchEndTimeLeft = "";
+          this.resetGaps();
+          this.updatePositionText();
         }
       );
 
@@ -103,10 +137,79 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
         (data) => {
           this.updateUI = true;
           this.racePosition = `${data.playerPos} of ${data.totalRacers}`;
+          if (data.totalLegs > 1) {
+            this.racePosition += `\nLeg ${data.currentLeg}/${data.totalLegs}`;
+          }
+          if (data.totalLaps > 1) {
+            this.racePosition += `\nLap ${data.currentLap}/${data.totalLaps}`;
+          }
+          this.localMatchTime = data.matchTime; // Update local match time to match the server's time
+          this.updateGaps(data.playerPos, data.gapToNext, data.gapToLeader);
+        }
+      );
+
+      // Subscribe to time trial timer updates
+      this.timeTrialTimeUpdateSub = this.connectNetworkEvent(
+        this.owner,
+        Events.onTimeTrialTimeUpdate,
+        (data) => {
+          this.updateUI = true;
+          this.racePosition = "Time Trial";
+          this.localMatchTime = data.matchTime; // Update local match time to match the server's time
+        }
+      );
+
+      // Subscribe to race progress updates while spectating
+      this.spectatorRaceUpdateSub = this.connectNetworkEvent(
+        this.owner,
+        Events.onSpectatorRaceUpdate,
+        (data) => {
+          this.updateUI = true;
+          this.racePosition = `Spectating\nLeader: ${data.leaderName}`;
+          if (data.totalLaps > 1) {
+            this.racePosition += ` (Lap ${data.leaderLap}/${data.totalLaps})`;
+          }
+          this.racePosition += `\nFinished ${data.racersFinished} of ${data.totalRacers}`;
           this.localMatchTime = data.matchTime; // Update local match time to match the server's time
         }
       );
 
+      // Subscribe to the countdown of the active match end rule
+      this.matchEndTimeLeftSub = this.connectNetworkBroadcastEvent(
+        Events.onMatchEndTimeLeft,
+        (data) => {
+          this.matchEndTimeLeft = data.timeLeftMS > 0 ? `Ends in ${Math.ceil(data.timeLeftMS / 1000)}` : "";
+        }
+      );
+
+      // Subscribe to warnings about being in the danger zone of the next elimination
+      this.eliminationWarningSub = this.connectNetworkEvent(
+        this.owner,
+        Events.onEliminationWarning,
+        (data) => {
+          this.eliminationWarning = data.inDangerZone ? `<color=red>DANGER! Out in ${Math.ceil(data.timeLeftMS / 1000)}</color>` : "";
+        }
+      );
+
+      // Subscribe to the announcement of a false start penalty, shown until the HUD is reset
+      this.falseStartPenaltySub = this.connectNetworkEvent(
+        this.owner,
+        Events.onFalseStartPenalty,
+        (data) => {
+          this.falseStartPenalty = `<color=red>${data.message}</color>`;
+          this.updatePositionText();
+        }
+      );
+
+      // Subscribe to the player's checkpoint splits, flashed next to the timer with the delta to their best run
+      this.checkpointSplitSub = this.connectNetworkEvent(
+        this.owner,
+        Events.onCheckpointSplit,
+        (data) => {
+          this.showSplit(data.splitName, data.splitTime, data.hasBestSplit, data.deltaTime);
+        }
+      );
+
       // Subscribe to event for when the player uses boost
       this.playerUsedBoostSub = this.connectLocalEvent(
         this.owner,
@@ -121,6 +224,8 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
       this.worldUpdateSub = this.connectLocalBroadcastEvent(
         hz.World.onUpdate,
         (data) => {
+          // The finish split is still shown after the race position updates stop
+          this.updateSplitText(data.deltaTime);
           if (!this.updateUI) {
             return;
           }
@@ -128,7 +233,9 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
           // Update timer text and position text with the latest information
           this.localMatchTime += data.deltaTime;
           this.timerTextGizmo?.text.set(`<line-height=75%>${msToMinutesAndSeconds(this.localMatchTime)}`);
-          this.positionTextGizmo?.text.set(`<line-height=75%>${this.racePosition}`);
+          this.timeSinceGapUpdate += data.deltaTime;
+          this.updateGapText();
+          this.updatePositionText();
 
           // Handle the star spinning effect in the HUD
           if (this.shouldSpinStar === true) {
@@ -174,6 +281,82 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
     }
   }
 
+  // Update the position text with the race position, the time gaps and any countdown or warning
+  private updatePositionText(): void {
+    const lines = [this.racePosition, this.raceGaps, this.matchEndTimeLeft, this.eliminationWarning, this.falseStartPenalty].filter((line) => line !== "");
+    this.positionTextGizmo?.text.set(`<line-height=75%>${lines.join("\n")}`);
+  }
+
+  // Take the time gaps of a race update, working out how fast they change so they can count down until the next update
+  private updateGaps(racePos: number, gapToNext: number, gapToLeader: number): void {
+    const canEstimateRate = racePos === this.gapRacePos && this.timeSinceGapUpdate > 0;
+    this.gapToNextRate = canEstimateRate && this.gapToNext >= 0 && gapToNext >= 0
+      ? Math.min(Math.max((gapToNext - this.gapToNext) / this.timeSinceGapUpdate, -1), 1)
+      : 0;
+    this.gapToLeaderRate = canEstimateRate && this.gapToLeader >= 0 && gapToLeader >= 0
+      ? Math.min(Math.max((gapToLeader - this.gapToLeader) / this.timeSinceGapUpdate, -1), 1)
+      : 0;
+    this.gapToNext = gapToNext;
+    this.gapToLeader = gapToLeader;
+    this.gapRacePos = racePos;
+    this.timeSinceGapUpdate = 0;
+    this.updateGapText();
+  }
+
+  // Show the time gaps, moved on by how fast they have been changing since the last update
+  private updateGapText(): void {
+    if (this.gapToLeader < 0) {
+      this.raceGaps = this.gapRacePos === 1 ? "Leading" : "";
+      return;
+    }
+
+    const formatGap = (gap: number, rate: number) => `+${Math.max(gap + rate * this.timeSinceGapUpdate, 0).toFixed(1)}s`;
+    this.raceGaps = `Leader ${formatGap(this.gapToLeader, this.gapToLeaderRate)}`;
+    if (this.gapRacePos > 2) {
+      this.raceGaps = `Next ${formatGap(this.gapToNext, this.gapToNextRate)}\n${this.raceGaps}`;
+    }
+  }
+
+  // Start flashing a split, green if it is faster than the same split of the best run and red if it is slower
+  private showSplit(splitName: string, splitTime: number, hasBestSplit: boolean, deltaTime: number): void {
+    this.split = `${splitName}  ${msToMinutesAndSeconds(splitTime)}`;
+    if (hasBestSplit) {
+      const color = deltaTime <= 0 ? "green" : "red";
+      this.split += `\n<color=${color}>${deltaTime <= 0 ? "-" : "+"}${Math.abs(deltaTime).toFixed(2)}</color>`;
+    }
+    this.splitShownTime = 0;
+    this.updateSplitText(0);
+  }
+
+  // Shrink a new split from its flash size, and hide it once it has been shown long enough
+  private updateSplitText(deltaTime: number): void {
+    if (this.split === "") {
+      return;
+    }
+
+    this.splitShownTime += deltaTime;
+    if (this.splitShownTime >= this.splitDisplayTime) {
+      this.split = "";
+      this.splitTextGizmo?.text.set("");
+      return;
+    }
+
+    const flash = Math.max(1 - this.splitShownTime / this.splitFlashTime, 0);
+    const size = Math.round(100 + (this.splitFlashSize - 100) * flash);
+    this.splitTextGizmo?.text.set(`<line-height=75%><size=${size}%>${this.split}`);
+  }
+
+  // Clear the time gaps
+  private resetGaps(): void {
+    this.gapToNext = -1;
+    this.gapToLeader = -1;
+    this.gapToNextRate = 0;
+    this.gapToLeaderRate = 0;
+    this.timeSinceGapUpdate = 0;
+    this.gapRacePos = 0;
+    this.raceGaps = "";
+  }
+
   // Set the boost icon color to active (green)
   private setActiveBoostColor(): void {
     const star = this.innerIcon?.as(hz.MeshEntity)!;
@@ -203,12 +386,24 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
     this.playerBoostSub?.disconnect();
     this.stopRacePosUpdatesSub?.disconnect();
     this.racePosUpdateSub?.disconnect();
+    this.timeTrialTimeUpdateSub?.disconnect();
+    this.spectatorRaceUpdateSub?.disconnect();
+    this.matchEndTimeLeftSub?.disconnect();
+    this.eliminationWarningSub?.disconnect();
+    this.falseStartPenaltySub?.disconnect();
+    this.checkpointSplitSub?.disconnect();
     this.playerUsedBoostSub?.disconnect();
     this.worldUpdateSub?.disconnect();
 
     this.playerBoostSub = null;
     this.stopRacePosUpdatesSub = null;
     this.racePosUpdateSub = null;
+    this.timeTrialTimeUpdateSub = null;
+    this.spectatorRaceUpdateSub = null;
+    this.matchEndTimeLeftSub = null;
+    this.eliminationWarningSub = null;
+    this.falseStartPenaltySub = null;
+    this.checkpointSplitSub = null;
     this.playerUsedBoostSub = null;
     this.worldUpdateSub = null;
     this.reset();
@@ -218,7 +413,13 @@ class HUDLocal extends hz.Component<typeof HUDLocal> {
   private reset(): void {
     this.setInactiveBoostColor();
     this.racePosition = "";
+    this.matchEndTimeLeft = "";
+    this.eliminationWarning = "";
+    this.falseStartPenalty = "";
     this.matchTime = "";
+    this.resetGaps();
+    this.split = "";
+    this.splitTextGizmo?.text.set("");
     this.timerTextGizmo?.text.set(`<line-height=75%>${this.matchTime}`);
     this.positionTextGizmo?.text.set(`<line-height=75%>${this.racePosition}`);
     this.entity.position.set(hz.Vec3.zero);
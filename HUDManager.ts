@@ -15,6 +15,14 @@ export class HUDManager extends hz.Component {
   private HUDPool: Pool<hz.Entity> = new Pool<hz.Entity>();
   // Map to associate players with their respective HUD entities
   private playerHUDCtrlMap: Map<number, hz.Entity> = new Map<number, hz.Entity>();
+  // Pool to manage available HUD progress strip entities
+  private progressStripPool: Pool<hz.Entity> = new Pool<hz.Entity>();
+  // Map to associate players with their respective progress strip entities
+  private playerProgressStripMap: Map<number, hz.Entity> = new Map<number, hz.Entity>();
+  // Pool to manage available HUD results panel entities
+  private resultsPanelPool: Pool<hz.Entity> = new Pool<hz.Entity>();
+  // Map to associate players with their respective results panel entities
+  private playerResultsPanelMap: Map<number, hz.Entity> = new Map<number, hz.Entity>();
 
   // Singleton instance of HUDManager
   private static s_instance: HUDManager;
@@ -42,6 +50,22 @@ export class HUDManager extends hz.Component {
       }
     );
 
+    // Event: Register available progress strip entities when they are created
+    this.connectLocalBroadcastEvent(
+      Events.onRegisterProgressStrip,
+      (data) => {
+        this.progressStripPool.addToPool(data.caller);
+      }
+    );
+
+    // Event: Register available results panel entities when they are created
+    this.connectLocalBroadcastEvent(
+      Events.onRegisterResultsPanel,
+      (data) => {
+        this.resultsPanelPool.addToPool(data.caller);
+      }
+    );
+
     // Event: Handle player entering the world and assign a HUD to them
     this.connectCodeBlockEvent(
       this.entity,
@@ -74,6 +98,9 @@ export class HUDManager extends hz.Component {
     }
     // Remove the player's HUD from the map
     this.playerHUDCtrlMap.delete(player.id);
+
+    this.releasePanel(player, this.progressStripPool, this.playerProgressStripMap);
+    this.releasePanel(player, this.resultsPanelPool, this.playerResultsPanelMap);
   }
 
   // Handle player entering the world
@@ -85,6 +112,28 @@ export class HUDManager extends hz.Component {
       availableHC.owner.set(player);
       this.playerHUDCtrlMap.set(player.id, availableHC);
     }
+
+    this.assignPanel(player, this.progressStripPool, this.playerProgressStripMap);
+    this.assignPanel(player, this.resultsPanelPool, this.playerResultsPanelMap);
+  }
+
+  // Give the player the next available HUD panel from the pool, owned by the player so it runs on their client
+  private assignPanel(player: hz.Player, pool: Pool<hz.Entity>, playerPanelMap: Map<number, hz.Entity>): void {
+    const availablePanel = pool.getNextAvailable();
+    if (availablePanel) {
+      availablePanel.owner.set(player);
+      playerPanelMap.set(player.id, availablePanel);
+    }
+  }
+
+  // Hand the player's HUD panel back to the server and return it to the pool
+  private releasePanel(player: hz.Player, pool: Pool<hz.Entity>, playerPanelMap: Map<number, hz.Entity>): void {
+    const playerPanel = playerPanelMap.get(player.id);
+    if (playerPanel) {
+      playerPanel.owner.set(this.world.getServerPlayer());
+      pool.addToPool(playerPanel);
+    }
+    playerPanelMap.delete(player.id);
   }
 }
 
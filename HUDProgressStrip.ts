@@ -0,0 +1,123 @@
+import * as hz from "horizon/core";
+import { Binding, DynamicList, UIComponent, UINode, View } from "horizon/ui";
+import { Events } from "Events";
+
+// A racer's marker on the progress strip
+type ProgressMarker = {
+  left: number, // Distance from the start of the strip, in percent of its width
+  color: string,
+  size: number, // Width and height of the marker in pixels
+};
+
+/**
+ * HUDProgressStrip Component
+ * This component shows a strip on the local player's HUD, next to HUDLocal, with a marker for every racer's progress through the race.
+ * The local player's marker is highlighted and the leader's is marked, so players can see how far behind they are.
+ * The HUDManager assigns a strip to every player, and it hides itself once progress updates stop arriving.
+ */
+class HUDProgressStrip extends UIComponent<typeof HUDProgressStrip> {
+  static propsDefinition = {
+    hideAfterMS: { type: hz.PropTypes.Number, default: 1500 }, // Time without a progress update after which the strip hides
+  };
+
+  protected readonly panelWidth = 600; // Width of the strip in pixels
+  protected readonly panelHeight = 40; // Height of the strip in pixels
+
+  private readonly markerSize = 16; // Size of another racer's marker in pixels
+  private readonly ownMarkerSize = 24; // Size of the local player's marker in pixels
+  private readonly racerColor = "#ffffffb0"; // Color of the other racers' markers
+  private readonly leaderColor = "#ffd700"; // Color of the leader's marker
+  private readonly ownColor = "#00ff00"; // Color of the local player's marker
+
+  private owner!: hz.Player; // Player who owns this strip
+  private hideTimeoutID: number | null = null; // Timeout hiding the strip when the updates stop
+
+  private markers = new Binding<ProgressMarker[]>([]); // Markers shown on the strip
+  private stripDisplay = new Binding<"none" | "flex">("none"); // Whether the strip is shown
+
+  // Pre-start lifecycle method to listen for progress updates on the local player's client
+  preStart() {
+    this.owner = this.entity.owner.get();
+    if (this.owner === this.world.getServerPlayer()) {
+      return;
+    }
+
+    this.connectNetworkBroadcastEvent(
+      Events.onRaceProgressUpdate,
+      (data) => {
+        this.updateStrip(data.racerIDs, data.progress);
+      }
+    );
+  }
+
+  // Called when the component starts, strips owned by the server are registered with the HUDManager
+  start() {
+    if (this.owner === this.world.getServerPlayer()) {
+      this.sendLocalBroadcastEvent(Events.onRegisterProgressStrip, {
+        caller: this.entity,
+      });
+    }
+  }
+
+  // Build the strip with the track line and the racer markers
+  initializeUI(): UINode {
+    return View({
+      children: [
+        View({
+          style: { position: "absolute", left: 0, right: 0, top: 18, height: 4, backgroundColor: "#ffffff60", borderRadius: 2 },
+        }),
+        DynamicList({
+          data: this.markers,
+          renderItem: (marker: ProgressMarker) => View({
+            style: {
+              position: "absolute",
+              left: `${marker.left}%`,
+              top: 20 - marker.size / 2,
+              width: marker.size,
+              height: marker.size,
+              marginLeft: -marker.size / 2,
+              borderRadius: marker.size / 2,
+              backgroundColor: marker.color,
+            },
+          }),
+          style: { position: "absolute", left: 0, right: 0, top: 0, bottom: 0 },
+        }),
+      ],
+      style: { display: this.stripDisplay, width: "100%", height: "100%" },
+    });
+  }
+
+  // Show a marker for each racer, the leader first in the update, and hide the strip if no update follows
+  private updateStrip(racerIDs: number[], progress: number[]): void {
+    const markers: ProgressMarker[] = [];
+    let ownMarker: ProgressMarker | null = null;
+    racerIDs.forEach((racerID, index) => {
+      const left = (progress[index] ?? 0) * 100;
+      if (racerID === this.owner.id) {
+        ownMarker = { left, color: this.ownColor, size: this.ownMarkerSize };
+      } else {
+        markers.push({ left, color: index === 0 ? this.leaderColor : this.racerColor, size: this.markerSize });
+      }
+    });
+
+    // Draw the leader above the other racers, and the local player above everyone
+    markers.reverse();
+    if (ownMarker) {
+      markers.push(ownMarker);
+    }
+    this.markers.set(markers);
+    this.stripDisplay.set("flex");
+
+    if (this.hideTimeoutID !== null) {
+      this.async.clearTimeout(this.hideTimeoutID);
+    }
+    this.hideTimeoutID = this.async.setTimeout(() => {
+      this.hideTimeoutID = null;
+      this.markers.set([]);
+      this.stripDisplay.set("none");
+    }, this.props.hideAfterMS);
+  }
+}
+
+// Register the HUDProgressStrip component with the framework
+hz.Component.register(HUDProgressStrip);
@@ -0,0 +1,111 @@
+import * as hz from "horizon/core";
+import { Binding, Text, UIComponent, UINode, View } from "horizon/ui";
+import { Events } from "Events";
+import { msToMinutesAndSeconds } from "GameUtils";
+
+/**
+ * HUDResultsPanel Component
+ * This component shows the local player their own results when a match completes, wherever they are in the world.
+ * It lists their position and time, how they compare with the winner and their personal best, and their respawns and boosts when career stats are kept.
+ * The HUDManager assigns a panel to every player, and the panel stays up until the next match starts.
+ */
+class HUDResultsPanel extends UIComponent<typeof HUDResultsPanel> {
+  static propsDefinition = {};
+
+  protected readonly panelWidth = 500; // Width of the panel in pixels
+  protected readonly panelHeight = 360; // Height of the panel in pixels
+
+  private readonly recordColor = "#ffd700"; // Color of the title when the player set a new personal best
+  private readonly aheadColor = "#00ff00"; // Color of a delta where the player was faster
+  private readonly behindColor = "#ff4040"; // Color of a delta where the player was slower
+
+  private owner!: hz.Player; // Player who owns this panel
+
+  private titleText = new Binding<string>(""); // Finishing position of the player
+  private titleColor = new Binding<string>("white"); // Color of the title
+  private resultsText = new Binding<string>(""); // Time, deltas, respawns and boosts of the player
+  private panelDisplay = new Binding<"none" | "flex">("none"); // Whether the panel is shown
+
+  // Pre-start lifecycle method to listen for the results on the local player's client
+  preStart() {
+    this.owner = this.entity.owner.get();
+    if (this.owner === this.world.getServerPlayer()) {
+      return;
+    }
+
+    this.connectNetworkEvent(
+      this.owner,
+      Events.onPersonalRaceResult,
+      (data) => {
+        this.showResults(data);
+      }
+    );
+
+    this.connectNetworkBroadcastEvent(
+      Events.onHidePersonalResults,
+      () => {
+        this.panelDisplay.set("none");
+      }
+    );
+  }
+
+  // Called when the component starts, panels owned by the server are registered with the HUDManager
+  start() {
+    if (this.owner === this.world.getServerPlayer()) {
+      this.sendLocalBroadcastEvent(Events.onRegisterResultsPanel, {
+        caller: this.entity,
+      });
+    }
+  }
+
+  // Build the panel with the title and the results text
+  initializeUI(): UINode {
+    return View({
+      children: [
+        Text({ text: this.titleText, style: { fontSize: 36, color: this.titleColor, fontWeight: "bold", marginBottom: 12 } }),
+        Text({ text: this.resultsText, style: { fontSize: 24, color: "white" } }),
+      ],
+      style: { display: this.panelDisplay, backgroundColor: "#202020e0", borderRadius: 12, padding: 16, width: "100%", height: "100%" },
+    });
+  }
+
+  // Show the player's results until the next match starts
+  private showResults(data: {
+    position: number, totalRacers: number, finished: boolean, finishTime: number, hasPersonalBest: boolean,
+    deltaToPersonalBest: number, deltaToWinner: number, respawns: number, boostsUsed: number, hasStats: boolean, isNewPersonalBest: boolean
+  }): void {
+    this.titleText.set(data.finished
+      ? `Position ${data.position} / ${data.totalRacers}`
+      : `Did Not Finish (${data.position} / ${data.totalRacers})`);
+    this.titleColor.set(data.isNewPersonalBest ? this.recordColor : "white");
+
+    let results = "";
+    if (data.finished) {
+      results += `Time\t${msToMinutesAndSeconds(data.finishTime)}\n`;
+      results += `Winner\t${data.position === 1 ? "You won!" : this.formatDelta(data.deltaToWinner)}\n`;
+      if (data.isNewPersonalBest) {
+        results += `<color=${this.recordColor}>New Personal Best!</color>\n`;
+      }
+      if (data.hasPersonalBest) {
+        results += `Personal Best\t${this.formatDelta(data.deltaToPersonalBest)}\n`;
+      }
+    }
+    // Respawns and boosts are only counted with career stats
+    if (data.hasStats) {
+      results += `Respawns\t${data.respawns}\n`;
+      results += `Boosts Used\t${data.boostsUsed}\n`;
+    }
+
+    this.resultsText.set(results);
+    this.panelDisplay.set("flex");
+  }
+
+  // Format a time delta in seconds, green when the player was faster and red when slower
+  private formatDelta(deltaTime: number): string {
+    const color = deltaTime <= 0 ? this.aheadColor : this.behindColor;
+    return `<color=${color}>${deltaTime <= 0 ? "-" : "+"}${Math.abs(deltaTime).toFixed(2)}</color>`;
+  }
+}
+
+// Register the HUDResultsPanel component with the framework
+hz.Component.register(HUDResultsPanel);
@@ -1,18 +1,22 @@
 import * as hz from 'horizon/core';
 import { Events } from 'Events';
+import { GameState } from 'GameUtils';
 import { RaceManager } from 'RaceManager';
 
 /**
  * LeaderboardController Component
  * This component listens to player events, specifically when a player reaches the goal,
- * and updates the leaderboard with their race time.
+ * and updates the leaderboard with their race time once the match completes, so the times of an aborted match are not counted.
  */
 class LeaderboardController extends hz.Component<typeof LeaderboardController> {
   // Define properties available for configuration in the component property panel
   static propsDefinition = {
     leaderboardName: { type: hz.PropTypes.String, default: 'Leaderboard' }, // Name of the leaderboard to update
+    relayLeaderboardName: { type: hz.PropTypes.String, default: 'RelayLeaderboard' }, // Name of the leaderboard for relay team times
   };
 
+  private matchScores = new Map<number, { player: hz.Player, leaderboardName: string, matchTime: number }>(); // Maps player IDs to the scores of this match, set when it completes
+
   constructor() {
     super();
   }
@@ -26,26 +30,53 @@ class LeaderboardController extends hz.Component<typeof LeaderboardController> {
       // Find the RaceManager instance to get the player's race time
       const raceManager = RaceManager.getInstance();
 
-      // Get the player's final race time from RaceManager
+      // Get the player's finish time stamped by the RaceManager's race clock
       if (raceManager) {
-        const raceParticipant = raceManager.getRaceParticipant(player);
-        if (raceParticipant) {
-          const matchTime = Math.floor(raceParticipant.lastKnownRaceTime); // Calculate the player's race time
-
-          // Update the leaderboard using setScoreForPlayer
-          if (this.world.leaderboards) {
-            this.world.leaderboards.setScoreForPlayer(this.props.leaderboardName!, player, matchTime, true);
-            console.log(`Updated leaderboard with player: ${player.name.get()} and time: ${matchTime}`);
-          } else {
-            console.error("Leaderboards are not available in the world object.");
-          }
+        const finishTime = raceManager.getFinishTime(player);
+        if (finishTime !== null) {
+          const matchTime = Math.floor(finishTime); // Calculate the player's race time, the team time in a relay
+          const leaderboardName = raceManager.isRelayRace() ? this.props.relayLeaderboardName! : this.props.leaderboardName!;
+          this.matchScores.set(player.id, { player, leaderboardName, matchTime });
         } else {
-          console.error("Race participant data not found for player.");
+          console.error("Finish time not found for player.");
         }
       } else {
         console.error("RaceManager instance not found.");
       }
     });
+
+    // Update the leaderboard once the match completes, every race starts over
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      if (data.toState === GameState.CompletedMatch) {
+        this.updateLeaderboard();
+      } else if (data.toState === GameState.PlayingMatch) {
+        this.matchScores.clear();
+      }
+    });
+
+    // The times of an aborted match are not counted
+    this.connectLocalBroadcastEvent(Events.onMatchAborted, () => {
+      this.matchScores.clear();
+    });
+
+    // Forget the scores of players leaving the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.matchScores.delete(player.id);
+    });
+  }
+
+  // Update the leaderboard with the scores of the completed match
+  private updateLeaderboard() {
+    this.matchScores.forEach(({ player, leaderboardName, matchTime }) => {
+      // Update the leaderboard using setScoreForPlayer
+      if (this.world.leaderboards) {
+        this.world.leaderboards.setScoreForPlayer(leaderboardName, player, matchTime, true);
+        console.log(`Updated leaderboard with player: ${player.name.get()} and time: ${matchTime}`);
+      } else {
+        console.error("Leaderboards are not available in the world object.");
+      }
+    });
+    this.matchScores.clear();
   }
 
   // Empty start method that can be overridden if needed
@@ -0,0 +1,209 @@
+/**
+ * Records every game event and game state transition of a match in a journal, timestamped against the race clock.
+ * Each match keeps its entries in a ring buffer, and when the match completes the journal is dumped to the log as a
+ * JSON timeline that can be read back with parseMatchTimeline, so the headless tests can replay real incidents.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { GameState, RingBuffer } from 'GameUtils';
+import { RaceManager } from 'RaceManager';
+
+// Version of the timeline format, timelines of any other version are rejected when read back
+export const matchTimelineVersion = 1;
+
+// Event data as stored in the journal: players, entities and vectors are replaced by markers
+// ({ $player: name }, { $entity: name }, { $vec3: [x, y, z] }) so the timeline is plain JSON
+export type JournalValue = null | boolean | number | string | JournalValue[] | { [key: string]: JournalValue };
+
+// Where a journal entry came from
+export type JournalEntryKind = 'local' | 'network' | 'state' | 'world';
+
+export type JournalEntry = {
+  seq: number, // Order of the entry in the match, counting dropped entries
+  timeMS: number, // Wall-clock time since the journal of the match started
+  raceTime: number | null, // Race clock time in seconds, null outside of a race
+  kind: JournalEntryKind,
+  event: string, // Name of the Events entry, the game state transition or the world event
+  data: JournalValue,
+};
+
+export type MatchTimeline = {
+  version: number, // Timeline format version, see matchTimelineVersion
+  matchNumber: number, // Number of the match since the world started, starting at 1
+  startTimestampMS: number, // Wall-clock time the journal of the match started
+  droppedEntries: number, // Oldest entries dropped because the ring buffer was full
+  entries: JournalEntry[], // Entries oldest first
+};
+
+// Convert event data to a journal value, replacing objects that cannot be written as JSON by markers
+export function toJournalValue(value: unknown): JournalValue {
+  if (value === null || value === undefined) {
+    return null;
+  } else if (value instanceof hz.Player) {
+    return { $player: value.name.get() };
+  } else if (value instanceof hz.Entity) {
+    return { $entity: value.name.get() };
+  } else if (value instanceof hz.Vec3) {
+    return { $vec3: [value.x, value.y, value.z] };
+  } else if (Array.isArray(value)) {
+    return value.map((item) => toJournalValue(item));
+  } else if (typeof value === 'object') {
+    const journalObject: { [key: string]: JournalValue } = {};
+    Object.keys(value).forEach((key) => {
+      journalObject[key] = toJournalValue((value as Record<string, unknown>)[key]);
+    });
+    return journalObject;
+  } else if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  return String(value);
+}
+
+// Read a timeline back from its JSON, returning null if it is not a timeline of the current version
+export function parseMatchTimeline(json: string): MatchTimeline | null {
+  let timeline: MatchTimeline;
+  try {
+    timeline = JSON.parse(json);
+  } catch (error) {
+    console.error(`Match timeline is not valid JSON: ${error}`);
+    return null;
+  }
+
+  if (timeline === null || typeof timeline !== 'object' || !Array.isArray(timeline.entries)) {
+    console.error(`Match timeline has no entries`);
+    return null;
+  }
+  if (timeline.version !== matchTimelineVersion) {
+    console.error(`Match timeline version ${timeline.version} is not supported, expected ${matchTimelineVersion}`);
+    return null;
+  }
+  return timeline;
+}
+
+export class MatchJournal extends hz.Component<typeof MatchJournal> {
+  static propsDefinition = {
+    maxEntriesPerMatch: { type: hz.PropTypes.Number, default: 500 }, // Size of the ring buffer, older entries are dropped
+    logTimelineOnComplete: { type: hz.PropTypes.Boolean, default: true }, // Whether to dump the timeline to the log when a match completes
+  };
+
+  private entries = new RingBuffer<JournalEntry>(0); // Entries of the current match
+  private matchNumber = 1; // Number of the current match
+  private startTimestampMS = 0; // Wall-clock time the journal of the current match started
+  private nextSeq = 0; // Sequence number of the next entry
+  private lastKnownGameState = GameState.ReadyForMatch; // Keeps track of the current game state
+  private lastTimeline: MatchTimeline | null = null; // Timeline of the last completed match
+
+  private static s_instance: MatchJournal;
+  public static getInstance(): MatchJournal {
+    return MatchJournal.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (MatchJournal.s_instance === undefined) {
+      MatchJournal.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to subscribe to every game event
+  preStart() {
+    this.entries = new RingBuffer<JournalEntry>(Math.max(Math.floor(this.props.maxEntriesPerMatch), 1));
+    this.startTimestampMS = Date.now();
+
+    // Network events sent to a single player or entity cannot be observed here, only broadcasts are recorded
+    Object.keys(Events).forEach((name) => {
+      const event = Events[name as keyof typeof Events] as unknown;
+      if (event === Events.onGameStateChanged) {
+        return;
+      } else if (event instanceof hz.LocalEvent) {
+        this.connectLocalBroadcastEvent(event as hz.LocalEvent<object>, (data) => {
+          this.record('local', name, data);
+        });
+      } else if (event instanceof hz.NetworkEvent) {
+        this.connectNetworkBroadcastEvent(event as hz.NetworkEvent<hz.SerializableState>, (data) => {
+          this.record('network', name, data);
+        });
+      }
+    });
+
+    // Game state transitions are recorded with the state names, and dump the timeline once the match completes
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      this.lastKnownGameState = data.toState;
+      this.record('state', 'onGameStateChanged', { fromState: GameState[data.fromState], toState: GameState[data.toState] });
+      if (data.toState === GameState.CompletedMatch) {
+        // Wait for the race results, which are sent after the state change
+        this.async.setTimeout(() => this.completeMatch(), 0);
+      }
+    });
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      this.record('world', 'OnPlayerEnterWorld', { player });
+    });
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.record('world', 'OnPlayerExitWorld', { player });
+    });
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Get the timeline of the last completed match, or null if no match has completed yet
+  public getLastTimeline(): MatchTimeline | null {
+    return this.lastTimeline;
+  }
+
+  // Get a timeline of the match so far, without waiting for it to complete
+  public getCurrentTimeline(): MatchTimeline {
+    return {
+      version: matchTimelineVersion,
+      matchNumber: this.matchNumber,
+      startTimestampMS: this.startTimestampMS,
+      droppedEntries: this.entries.droppedCount,
+      entries: this.entries.toArray(),
+    };
+  }
+
+  // Add an entry to the journal of the current match
+  private record(kind: JournalEntryKind, event: string, data: unknown) {
+    this.entries.push({
+      seq: this.nextSeq++,
+      timeMS: Date.now() - this.startTimestampMS,
+      raceTime: this.getRaceTime(),
+      kind,
+      event,
+      data: toJournalValue(data),
+    });
+  }
+
+  // Get the race clock time, or null if no race is running
+  private getRaceTime(): number | null {
+    if (this.lastKnownGameState !== GameState.PlayingMatch && this.lastKnownGameState !== GameState.EndingMatch) {
+      return null;
+    }
+    const raceManager = RaceManager.getInstance();
+    return raceManager ? raceManager.getMatchTime() : null;
+  }
+
+  // Keep and dump the timeline of the completed match, then start the journal of the next one
+  private completeMatch() {
+    this.lastTimeline = this.getCurrentTimeline();
+    if (this.props.logTimelineOnComplete) {
+      console.log(`${this.constructor.name} match ${this.matchNumber} timeline: ${JSON.stringify(this.lastTimeline)}`);
+    }
+    if (this.lastTimeline.droppedEntries > 0) {
+      console.warn(`${this.constructor.name} dropped the ${this.lastTimeline.droppedEntries} oldest entries of match ${this.matchNumber}, increase maxEntriesPerMatch to keep them`);
+    }
+
+    this.matchNumber++;
+    this.nextSeq = 0;
+    this.startTimestampMS = Date.now();
+    this.entries.clear();
+  }
+}
+
+// Register the MatchJournal component with the framework
+hz.Component.register(MatchJournal);
@@ -1,6 +1,7 @@
 import * as hz from 'horizon/core';
-import { GameState, PlayerGameStatus } from 'GameUtils';
+import { FalseStartPenalty, GameState, PlayerGameStatus, StartGridOrder } from 'GameUtils';
 import { Events } from "Events";
+import { TimeTrialManager } from 'TimeTrialManager';
 
 /**
  * MatchManager Component
@@ -13,14 +14,33 @@ export interface PlayerData {
   playerGameStatus: PlayerGameStatus; // Current game status of the player
 }
 
+export interface RelayTeam {
+  teamNumber: number; // Number of the team, starting at 1
+  members: hz.Player[]; // Runners of the team, in the order they run their legs
+}
+
 export class MatchManager extends hz.Component<typeof MatchManager> {
   static propsDefinition = {
     lobbySpawnPoint: { type: hz.PropTypes.Entity }, // Entity for the lobby spawn point
     matchSpawnPoint: { type: hz.PropTypes.Entity }, // Entity for the match spawn point
+    spectatorSpawnPoint: { type: hz.PropTypes.Entity }, // Entity for the spectator area of eliminated players
+    relayTeamSize: { type: hz.PropTypes.Number, default: 0 }, // Number of runners per relay team, 0 or 1 for a race between individuals
+    startGridParent: { type: hz.PropTypes.Entity }, // Entity that holds the spawn points of the start grid slots, pole position first
+    startGridOrder: { type: hz.PropTypes.String, default: 'Random' }, // Qualifying, LastResult or Random
+    startGridTimeLeftMS: { type: hz.PropTypes.Number, default: 3000 }, // Time left before the match starts at which racers are moved onto the grid
+    maxPlayersPerMatch: { type: hz.PropTypes.Number, default: 0 }, // Maximum number of racers in a match, 0 for no limit. Overflow is queued for the next match
+    lobbyReadyUI: { type: hz.PropTypes.Entity }, // Text gizmo in the lobby listing who is ready
   };
 
   private lastKnownGameState = GameState.ReadyForMatch; // Keeps track of the current game state
   private playerMap: Map<number, PlayerData> = new Map<number, PlayerData>(); // Maps player IDs to their data
+  private relayTeams: RelayTeam[] = []; // Relay teams of the current match, empty if it is not a relay
+  private startGridSlots: hz.SpawnPointGizmo[] = []; // Spawn points of the start grid slots, pole position first
+  private startGridAssignments = new Map<number, number>(); // Maps player IDs to their start grid slot index
+  private startGridPlaced = false; // True once the racers have been moved onto the start grid
+  private lastRaceOrder: number[] = []; // Player IDs in order of the last race's results
+  private readyQueue: hz.Player[] = []; // Players who are ready while the match is full, first in line first
+  private lobbyReadyUI: hz.TextGizmo | null = null; // UI entity listing who is ready
   private static s_instance: MatchManager;
 
   // Singleton instance getter
@@ -42,6 +62,16 @@ export class MatchManager extends hz.Component<typeof MatchManager> {
 
   // Pre-start lifecycle method to initialize event listeners
   preStart() {
+    this.lobbyReadyUI = this.props.lobbyReadyUI?.as(hz.TextGizmo) ?? null;
+    this.props.startGridParent?.children.get().forEach((slot) => {
+      const spawnPoint = slot.as(hz.SpawnPointGizmo);
+      if (spawnPoint) {
+        this.startGridSlots.push(spawnPoint);
+      } else {
+        console.warn(`${this.constructor.name} Start grid slot ${slot.name.get()} is not a spawn point`);
+      }
+    });
+
     // Handle player entering the world
     this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
       this.handleOnPlayerEnterWorld(player);
@@ -67,6 +97,33 @@ export class MatchManager extends hz.Component<typeof MatchManager> {
       this.handlePlayerDeregisterStandby(data.player);
     });
 
+    // Handle player toggling whether they are ready for the match
+    this.connectLocalBroadcastEvent(Events.onTogglePlayerReady, (data) => {
+      this.handleTogglePlayerReady(data.player);
+    });
+
+    // Move the racers onto the start grid shortly before the match starts
+    this.connectLocalBroadcastEvent(Events.onGameStartTimeLeft, (data) => {
+      if (!this.startGridPlaced && data.timeLeftMS <= this.props.startGridTimeLeftMS) {
+        this.placeStartGrid();
+      }
+    });
+
+    // Remember the race results for the start grid of the next match
+    this.connectLocalBroadcastEvent(Events.onRaceResults, (data) => {
+      this.lastRaceOrder = data.results.map((result) => result.player.id);
+    });
+
+    // Handle a racer crossing the start line before the match starts
+    this.connectLocalBroadcastEvent(Events.onPlayerFalseStart, (data) => {
+      this.handlePlayerFalseStart(data.player, data.penalty);
+    });
+
+    // Handle a racer being knocked out of the match
+    this.connectLocalBroadcastEvent(Events.onEliminatePlayer, (data) => {
+      this.handlePlayerEliminated(data.player);
+    });
+
     // Handle world reset
     this.connectNetworkBroadcastEvent(Events.onResetWorld, (data) => {
       this.reset();
@@ -86,29 +143,94 @@ export class MatchManager extends hz.Component<typeof MatchManager> {
       .map(value => value.player);
   }
 
+  // Get the game status of a player, or null if the player is not known
+  public getPlayerGameStatus(player: hz.Player): PlayerGameStatus | null {
+    return this.playerMap.get(player.id)?.playerGameStatus ?? null;
+  }
+
+  // Returns true if the match has as many racers in standby as it allows
+  public isMatchFull(): boolean {
+    const maxPlayers = Math.floor(this.props.maxPlayersPerMatch);
+    return maxPlayers > 0 && this.getPlayersWithStatus(PlayerGameStatus.Standby).length >= maxPlayers;
+  }
+
+  // Send the player back to the lobby from wherever they are, taking them out of the match. Returns false if the player is unknown
+  public sendPlayerToLobby(player: hz.Player): boolean {
+    const playerData = this.playerMap.get(player.id);
+    if (!playerData) {
+      console.error(`player ${player.name.get()} not found in playerMap`);
+      return false;
+    }
+
+    const fromStatus = playerData.playerGameStatus;
+    this.removeFromMatchSetup(player);
+    playerData.playerGameStatus = PlayerGameStatus.Lobby;
+    this.props.lobbySpawnPoint?.as(hz.SpawnPointGizmo)?.teleportPlayer(player);
+
+    switch (fromStatus) {
+      case PlayerGameStatus.Standby:
+        this.sendLocalBroadcastEvent(Events.onPlayerLeftStandby, { player });
+        this.promoteQueuedPlayers();
+        break;
+      case PlayerGameStatus.Playing:
+      case PlayerGameStatus.Eliminated:
+        this.sendLocalBroadcastEvent(Events.onPlayerLeftMatch, { player });
+        break;
+      case PlayerGameStatus.Lobby:
+      case PlayerGameStatus.Spectating:
+        break;
+    }
+    this.updateLobbyReadyUI();
+    return true;
+  }
+
+  // Get the relay teams of the current match, empty if it is not a relay
+  public getRelayTeams(): Array<RelayTeam> {
+    return this.relayTeams;
+  }
+
   // Handle game state transitions and update player status accordingly
   private handleGameStateTransit(fromState: GameState, toState: GameState) {
     this.lastKnownGameState = toState;
 
-    if (fromState === GameState.StartingMatch && toState === GameState.PlayingMatch) {
+    if (fromState === GameState.StartingMatch && toState === GameState.ReadyForMatch) {
+      // Match start was cancelled - free the start grid and let disqualified racers back into the lobby
+      this.clearStartGrid();
+      this.transferAllPlayersWithStatus(PlayerGameStatus.Spectating, PlayerGameStatus.Lobby);
+      this.promoteQueuedPlayers();
+    }
+    else if (fromState === GameState.StartingMatch && toState === GameState.PlayingMatch) {
       // Game is starting - teleport players to match area
+      if (!this.startGridPlaced) {
+        this.placeStartGrid();
+      }
       const matchSpawnPointGiz = this.props.matchSpawnPoint!.as(hz.SpawnPointGizmo);
       if (matchSpawnPointGiz) {
-        // Teleport lobby players to the match spawn point
-        this.teleportPlayersWithStatusToSpawnPoint(PlayerGameStatus.Lobby, matchSpawnPointGiz);
+        // Only the ready players race, players who are not ready stay in the lobby
         this.transferAllPlayersWithStatus(PlayerGameStatus.Standby, PlayerGameStatus.Playing);
-        this.transferAllPlayersWithStatus(PlayerGameStatus.Lobby, PlayerGameStatus.Playing);
+        this.splitRelayTeams();
       }
+      this.updateLobbyReadyUI();
+      this.clearStartGrid();
     }
     else if (toState === GameState.CompletedMatch) {
+      this.relayTeams = [];
+
       // Game has ended - teleport players to the lobby area
       const lobbySpawnPointGiz = this.props.lobbySpawnPoint!.as(hz.SpawnPointGizmo);
       if (lobbySpawnPointGiz) {
         this.playerMap.forEach((playerD: PlayerData) => {
           lobbySpawnPointGiz.teleportPlayer(playerD.player);
+          if (playerD.playerGameStatus === PlayerGameStatus.Spectating && !this.readyQueue.includes(playerD.player)) {
+            // Players who watched the match are queued for the next one
+            this.readyQueue.push(playerD.player);
+          }
           playerD.playerGameStatus = PlayerGameStatus.Lobby;
         });
       }
+
+      // Queued players take their places in standby for the next match
+      this.promoteQueuedPlayers();
     } else if (toState === GameState.ReadyForMatch) {
       // Reset player local objects when match is ready
       this.playerMap.forEach((pd) => {
@@ -125,41 +247,304 @@ export class MatchManager extends hz.Component<typeof MatchManager> {
       return;
     }
     this.playerMap.delete(player.id);
+    this.removeFromMatchSetup(player);
 
     // Send events based on the player's game status
     switch (playerData.playerGameStatus) {
       case PlayerGameStatus.Standby:
         this.sendLocalBroadcastEvent(Events.onPlayerLeftStandby, { player });
+        this.promoteQueuedPlayers();
         break;
       case PlayerGameStatus.Playing:
+      case PlayerGameStatus.Eliminated:
         this.sendLocalBroadcastEvent(Events.onPlayerLeftMatch, { player });
         break;
       case PlayerGameStatus.Lobby:
+      case PlayerGameStatus.Spectating:
         break;
     }
+    this.updateLobbyReadyUI();
   }
 
-  // Handle player entering the world and add them to the lobby
+  // Handle player entering the world and add them to the lobby, or to the spectators if a match is running
   private handleOnPlayerEnterWorld(player: hz.Player): void {
+    const matchRunning = this.lastKnownGameState === GameState.PlayingMatch || this.lastKnownGameState === GameState.EndingMatch;
     this.playerMap.set(player.id, {
       player,
-      playerGameStatus: PlayerGameStatus.Lobby,
+      playerGameStatus: matchRunning ? PlayerGameStatus.Spectating : PlayerGameStatus.Lobby,
+    });
+
+    if (matchRunning) {
+      this.props.spectatorSpawnPoint?.as(hz.SpawnPointGizmo)?.teleportPlayer(player);
+      this.world.ui.showPopupForPlayer(player, "A race is running, you will join the next one", 3);
+    }
+    this.updateLobbyReadyUI();
+  }
+
+  // Take the player off the start grid, the ready queue and their relay team
+  private removeFromMatchSetup(player: hz.Player): void {
+    this.startGridAssignments.delete(player.id);
+    this.readyQueue = this.readyQueue.filter((queued) => queued.id !== player.id);
+    this.relayTeams.forEach((team) => {
+      team.members = team.members.filter((member) => member.id !== player.id);
     });
   }
 
-  // Register player for the match (standby state)
+  // Toggle whether the player is ready, queueing them for the next match if this one is full or already running
+  private handleTogglePlayerReady(player: hz.Player): void {
+    const status = this.getPlayerGameStatus(player);
+    if (status === PlayerGameStatus.Standby) {
+      this.handlePlayerDeregisterStandby(player);
+      if (this.getPlayerGameStatus(player) === PlayerGameStatus.Lobby) {
+        this.world.ui.showPopupForPlayer(player, "You are no longer ready", 2);
+      }
+    } else if (this.readyQueue.includes(player)) {
+      this.readyQueue = this.readyQueue.filter((queued) => queued !== player);
+      this.world.ui.showPopupForPlayer(player, "You left the queue", 2);
+      this.updateLobbyReadyUI();
+    } else if (status === PlayerGameStatus.Lobby) {
+      if (this.lastKnownGameState !== GameState.StartingMatch && this.lastKnownGameState !== GameState.ReadyForMatch) {
+        this.queuePlayer(player, "A race is running, you are number");
+        return;
+      }
+      this.handlePlayerRegisterStandby(player);
+      if (this.getPlayerGameStatus(player) === PlayerGameStatus.Standby) {
+        this.world.ui.showPopupForPlayer(player, "You are ready!", 2);
+      }
+    } else if (status === PlayerGameStatus.Spectating) {
+      this.world.ui.showPopupForPlayer(player, "You are already queued for the next match", 2);
+    }
+  }
+
+  // Queue a ready player for the next match
+  private queuePlayer(player: hz.Player, reason = "The match is full, you are number"): void {
+    if (!this.readyQueue.includes(player)) {
+      this.readyQueue.push(player);
+    }
+    this.world.ui.showPopupForPlayer(player, `${reason} ${this.readyQueue.indexOf(player) + 1} in the queue`, 2);
+    this.updateLobbyReadyUI();
+  }
+
+  // Move queued players into standby while the match has room, first in line first
+  private promoteQueuedPlayers(): void {
+    const canJoin = this.lastKnownGameState === GameState.ReadyForMatch
+      || this.lastKnownGameState === GameState.StartingMatch
+      || this.lastKnownGameState === GameState.CompletedMatch;
+    while (canJoin && this.readyQueue.length > 0 && !this.isMatchFull()) {
+      const player = this.readyQueue.shift()!;
+      if (this.getPlayerGameStatus(player) !== PlayerGameStatus.Lobby) {
+        continue;
+      }
+      this.transferPlayerWithStatus(player, PlayerGameStatus.Lobby, PlayerGameStatus.Standby);
+      this.world.ui.showPopupForPlayer(player, "A place opened up, you are ready for the next match", 2);
+
+      // Once the match is completed, the GameManager checks the standby when the next match becomes ready
+      if (this.lastKnownGameState !== GameState.CompletedMatch) {
+        this.sendLocalBroadcastEvent(Events.onPlayerJoinedStandby, { player });
+      }
+    }
+    this.updateLobbyReadyUI();
+  }
+
+  // Update the lobby UI with the players who are ready, queued and not ready
+  private updateLobbyReadyUI(): void {
+    if (!this.lobbyReadyUI) {
+      return;
+    }
+
+    const readyPlayers = this.getPlayersWithStatus(PlayerGameStatus.Standby);
+    const notReadyPlayers = this.getPlayersWithStatus(PlayerGameStatus.Lobby)
+      .filter((player) => !this.readyQueue.includes(player));
+    const maxPlayers = Math.floor(this.props.maxPlayersPerMatch);
+
+    let text = `Ready (${readyPlayers.length}${maxPlayers > 0 ? `/${maxPlayers}` : ""})\n`;
+    readyPlayers.forEach((player) => { text += `${player.name.get()}\n`; });
+    if (this.readyQueue.length > 0) {
+      text += `\nQueued\n`;
+      this.readyQueue.forEach((player, index) => { text += `${index + 1}. ${player.name.get()}\n`; });
+    }
+    if (notReadyPlayers.length > 0) {
+      text += `\nNot Ready\n`;
+      notReadyPlayers.forEach((player) => { text += `${player.name.get()}\n`; });
+    }
+    this.lobbyReadyUI.text.set(text);
+  }
+
+  // Register player for the match (standby state), or queue them if the match is full
   private handlePlayerRegisterStandby(player: hz.Player): void {
+    // Only players in the lobby can register, disqualified racers are spectating until the match is over
+    if (this.getPlayerGameStatus(player) !== PlayerGameStatus.Lobby) {
+      return;
+    }
+    if (this.isMatchFull()) {
+      this.queuePlayer(player);
+      return;
+    }
     if (this.lastKnownGameState === GameState.StartingMatch || this.lastKnownGameState === GameState.ReadyForMatch) {
       this.transferPlayerWithStatus(player, PlayerGameStatus.Lobby, PlayerGameStatus.Standby);
+      if (this.startGridPlaced) {
+        this.assignStartGridSlot(player); // The grid is already placed, take the next free slot
+      }
       this.sendLocalBroadcastEvent(Events.onPlayerJoinedStandby, { player });
+      this.updateLobbyReadyUI();
     }
   }
 
-  // Deregister player from standby (move them back to lobby)
+  // Deregister player from standby (move them back to lobby), racers already on the start grid stay in
   private handlePlayerDeregisterStandby(player: hz.Player): void {
+    if (this.startGridAssignments.has(player.id)) {
+      return;
+    }
+    if (this.getPlayerGameStatus(player) !== PlayerGameStatus.Standby) {
+      return;
+    }
     if (this.lastKnownGameState === GameState.StartingMatch || this.lastKnownGameState === GameState.ReadyForMatch) {
       this.transferPlayerWithStatus(player, PlayerGameStatus.Standby, PlayerGameStatus.Lobby);
+      this.sendLocalBroadcastEvent(Events.onPlayerLeftStandby, { player });
+      this.promoteQueuedPlayers();
+    }
+  }
+
+  // Parse the start grid order property, falling back to a random order
+  private getStartGridOrder(): StartGridOrder {
+    const order = StartGridOrder[this.props.startGridOrder as keyof typeof StartGridOrder];
+    if (order === undefined) {
+      console.error(`Unknown start grid order ${this.props.startGridOrder}, using ${StartGridOrder[StartGridOrder.Random]}`);
+      return StartGridOrder.Random;
+    }
+    return order;
+  }
+
+  // Sort the racers into their start grid order
+  private sortForStartGrid(players: hz.Player[]): hz.Player[] {
+    const shuffled = players.slice();
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    switch (this.getStartGridOrder()) {
+      case StartGridOrder.Qualifying: {
+        // Racers without a time trial time start behind those with one, in random order
+        const timeTrialManager = TimeTrialManager.getInstance();
+        const getTime = (player: hz.Player) => timeTrialManager?.getBestTime(player) ?? Infinity;
+        return shuffled.sort((a, b) => getTime(a) - getTime(b));
+      }
+      case StartGridOrder.LastResult: {
+        // Racers who were not in the last race start behind those who were, in random order
+        const getPosition = (player: hz.Player) => {
+          const position = this.lastRaceOrder.indexOf(player.id);
+          return position === -1 ? Infinity : position;
+        };
+        return shuffled.sort((a, b) => getPosition(a) - getPosition(b));
+      }
+      case StartGridOrder.Random:
+        return shuffled;
+    }
+  }
+
+  // Assign every racer a start grid slot and teleport them onto it
+  private placeStartGrid(): void {
+    this.startGridPlaced = true;
+    const racers = this.getPlayersWithStatus(PlayerGameStatus.Standby)
+      .concat(this.getPlayersWithStatus(PlayerGameStatus.Lobby));
+    this.sortForStartGrid(racers).forEach((player) => {
+      this.assignStartGridSlot(player);
+    });
+  }
+
+  // Assign the player the first free start grid slot and teleport them onto it
+  private assignStartGridSlot(player: hz.Player): void {
+    if (this.startGridAssignments.has(player.id)) {
+      return;
+    }
+
+    const takenSlots = new Set(this.startGridAssignments.values());
+    const slotIndex = this.startGridSlots.findIndex((_, index) => !takenSlots.has(index));
+    if (slotIndex === -1) {
+      if (this.startGridSlots.length > 0) {
+        console.warn(`${this.constructor.name} No free start grid slot for ${player.name.get()}`);
+      }
+      return; // The player starts from the match spawn point instead
+    }
+
+    this.startGridAssignments.set(player.id, slotIndex);
+    this.startGridSlots[slotIndex].teleportPlayer(player);
+  }
+
+  // Free all the start grid slots
+  private clearStartGrid(): void {
+    this.startGridAssignments.clear();
+    this.startGridPlaced = false;
+  }
+
+  // Split the players of a relay match into teams of balanced size, in random order
+  private splitRelayTeams(): void {
+    this.relayTeams = [];
+    const teamSize = Math.floor(this.props.relayTeamSize);
+    if (teamSize <= 1) {
+      return;
+    }
+
+    const players = this.getPlayersWithStatus(PlayerGameStatus.Playing);
+    for (let i = players.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [players[i], players[j]] = [players[j], players[i]];
+    }
+
+    const teamCount = Math.ceil(players.length / teamSize);
+    for (let i = 0; i < teamCount; i++) {
+      this.relayTeams.push({ teamNumber: i + 1, members: [] });
+    }
+    players.forEach((player, index) => {
+      this.relayTeams[index % teamCount].members.push(player);
+    });
+  }
+
+  // Send a racer who false started back to the start, or take them out of the match
+  private handlePlayerFalseStart(player: hz.Player, penalty: FalseStartPenalty): void {
+    const playerData = this.playerMap.get(player.id);
+    if (this.lastKnownGameState !== GameState.StartingMatch || !playerData) {
+      return;
+    }
+
+    switch (penalty) {
+      case FalseStartPenalty.ResetToGrid: {
+        const slotIndex = this.startGridAssignments.get(player.id);
+        const spawnPoint = slotIndex !== undefined ? this.startGridSlots[slotIndex] : this.props.matchSpawnPoint?.as(hz.SpawnPointGizmo);
+        spawnPoint?.teleportPlayer(player);
+        break;
+      }
+      case FalseStartPenalty.Disqualify: {
+        const wasInStandby = playerData.playerGameStatus === PlayerGameStatus.Standby;
+        this.startGridAssignments.delete(player.id);
+        playerData.playerGameStatus = PlayerGameStatus.Spectating;
+        this.props.spectatorSpawnPoint?.as(hz.SpawnPointGizmo)?.teleportPlayer(player);
+        if (wasInStandby) {
+          this.sendLocalBroadcastEvent(Events.onPlayerLeftStandby, { player });
+        }
+        break;
+      }
+      case FalseStartPenalty.TimePenalty:
+        break; // The RaceManager adds the time to the racer's finish time
+    }
+  }
+
+  // Move a racer out of the match into the spectator area, only while the match is being played
+  private handlePlayerEliminated(player: hz.Player): void {
+    const playerData = this.playerMap.get(player.id);
+    if (this.lastKnownGameState !== GameState.PlayingMatch || playerData?.playerGameStatus !== PlayerGameStatus.Playing) {
+      return;
+    }
+
+    this.transferPlayerWithStatus(player, PlayerGameStatus.Playing, PlayerGameStatus.Eliminated);
+    const spectatorSpawnPointGiz = this.props.spectatorSpawnPoint?.as(hz.SpawnPointGizmo);
+    if (spectatorSpawnPointGiz) {
+      spectatorSpawnPointGiz.teleportPlayer(player);
+    } else {
+      console.warn(`${this.constructor.name} No spectator spawn point set, ${player.name.get()} stays on the track`);
     }
+    this.sendLocalBroadcastEvent(Events.onPlayerEliminated, { player });
   }
 
   // Transfer all players from one status to another
@@ -190,10 +575,10 @@ export class MatchManager extends hz.Component<typeof MatchManager> {
     playerData.playerGameStatus = toState;
   }
 
-  // Teleport players with a specific status to a spawn point
+  // Teleport players with a specific status to a spawn point, unless they are already on the start grid
   private teleportPlayersWithStatusToSpawnPoint(status: PlayerGameStatus, spawnPoint: hz.SpawnPointGizmo) {
     this.playerMap.forEach((playerD: PlayerData) => {
-      if (playerD.playerGameStatus === status) {
+      if (playerD.playerGameStatus === status && !this.startGridAssignments.has(playerD.player.id)) {
         spawnPoint.teleportPlayer(playerD.player);
       }
     });
@@ -203,6 +588,8 @@ export class MatchManager extends hz.Component<typeof MatchManager> {
   private reset() {
     this.lastKnownGameState = GameState.ReadyForMatch;
     this.playerMap.clear();
+    this.relayTeams = [];
+    this.clearStartGrid();
   }
 
   // Dispose method to reset the match state when the component is destroyed
@@ -0,0 +1,103 @@
+/**
+ * Sends every racer their personal results when a match completes.
+ * The career stats of the players are noted when the race starts, so the results can show the boosts and respawns of this
+ * race and compare the finish time with the personal best from before it. The results panels hide when the next match starts.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { GameState, RaceResult } from 'GameUtils';
+import { CareerStats, CareerStatsManager } from 'CareerStatsManager';
+
+export class MatchResultsManager extends hz.Component<typeof MatchResultsManager> {
+  static propsDefinition = {};
+
+  private statsAtStart = new Map<number, CareerStats>(); // Maps player IDs to their career stats when the race started
+
+  private static s_instance: MatchResultsManager;
+  public static getInstance(): MatchResultsManager {
+    return MatchResultsManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (MatchResultsManager.s_instance === undefined) {
+      MatchResultsManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      if (data.toState === GameState.StartingMatch) {
+        this.sendNetworkBroadcastEvent(Events.onHidePersonalResults, {});
+      } else if (data.fromState === GameState.StartingMatch && data.toState === GameState.PlayingMatch) {
+        this.handleOnMatchStart();
+      }
+    });
+
+    this.connectLocalBroadcastEvent(Events.onRaceResults, (data) => {
+      this.handleOnRaceResults(data.results);
+    });
+
+    // Forget the stats of players leaving the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.statsAtStart.delete(player.id);
+    });
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Note the career stats of every player as the race starts
+  private handleOnMatchStart() {
+    this.statsAtStart.clear();
+    const careerStats = CareerStatsManager.getInstance();
+    if (!careerStats) {
+      return;
+    }
+    this.world.getPlayers().forEach((player) => {
+      const stats = careerStats.getStats(player);
+      if (stats) {
+        this.statsAtStart.set(player.id, stats);
+      }
+    });
+  }
+
+  // Send every ranked racer their own results, compared with the winner and their best time before this race.
+  // Without career stats there is no personal best, respawns or boosts to show
+  private handleOnRaceResults(results: RaceResult[]) {
+    const careerStats = CareerStatsManager.getInstance();
+    const trackName = careerStats?.getTrackName() ?? '';
+    const winnerTime = results[0]?.finishTime ?? null;
+
+    results.forEach((result) => {
+      const startStats = this.statsAtStart.get(result.player.id);
+      const stats = careerStats?.getStats(result.player) ?? null;
+      const hasStats = stats !== null && startStats !== undefined;
+      const bestTime = startStats?.bestTimes[trackName];
+      const finished = result.finishTime !== null;
+      const finishTime = result.finishTime ?? 0;
+
+      this.sendNetworkEvent(result.player, Events.onPersonalRaceResult, {
+        position: result.position,
+        totalRacers: results.length,
+        finished,
+        finishTime,
+        hasPersonalBest: bestTime !== undefined,
+        deltaToPersonalBest: finished && bestTime !== undefined ? finishTime - bestTime : 0,
+        deltaToWinner: finished && winnerTime !== null ? finishTime - winnerTime : 0,
+        respawns: hasStats ? stats.outOfBoundsFalls - startStats.outOfBoundsFalls : 0,
+        boostsUsed: hasStats ? stats.boostsUsed - startStats.boostsUsed : 0,
+        hasStats,
+        isNewPersonalBest: finished && startStats !== undefined && (bestTime === undefined || finishTime < bestTime),
+      });
+    });
+    this.statsAtStart.clear();
+  }
+}
+
+// Register the MatchResultsManager component with the framework
+hz.Component.register(MatchResultsManager);
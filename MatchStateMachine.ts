@@ -0,0 +1,372 @@
+/**
+ * This script defines the match state machine that drives the GameState cycle, independently of the Horizon runtime.
+ * It holds the transition table, the guards that decide when a match starts and ends, and the countdowns between states.
+ * Timers, the player counts and the side effects of each transition are injected, so the rules can be tested under plain Node.
+ */
+
+// Enumeration representing different game states
+export enum GameState {
+  "ReadyForMatch",    // Default state: nothing is happening, ready to start a match
+  "StartingMatch",    // Players have started a match
+  "PlayingMatch",     // A match is currently ongoing
+  "EndingMatch",      // The match is ending
+  "CompletedMatch",   // The match has just completed
+}
+
+// Enumeration representing the rules for when a match moves from playing to ending
+export enum MatchEndRule {
+  "FirstFinisher",   // The match ends a grace period after the first racer finishes
+  "TopFinishers",    // The match ends a grace period after a set number of racers have finished
+  "AllFinished",     // The match ends once every racer has finished, or at the safety time limit
+  "TimeLimit",       // The match ends when the race time limit runs out
+}
+
+// Enumeration representing the countdowns run by the state machine
+export enum MatchCountdown {
+  "MatchStart",      // Countdown from StartingMatch to PlayingMatch
+  "RaceTimeLimit",   // Countdown of the race time limit while the match is playing
+  "MatchEnd",        // Countdown from EndingMatch to CompletedMatch
+  "NewMatch",        // Countdown from CompletedMatch to ReadyForMatch
+}
+
+// The states each state can transition to
+export const matchTransitionTable: Readonly<Record<GameState, readonly GameState[]>> = {
+  [GameState.ReadyForMatch]: [GameState.StartingMatch],
+  [GameState.StartingMatch]: [GameState.ReadyForMatch, GameState.PlayingMatch],
+  [GameState.PlayingMatch]: [GameState.EndingMatch],
+  [GameState.EndingMatch]: [GameState.CompletedMatch],
+  [GameState.CompletedMatch]: [GameState.ReadyForMatch],
+};
+
+// Timer functions the state machine schedules its countdowns with
+export interface MatchTimers {
+  setInterval(callback: () => void, intervalMS: number): number;
+  clearInterval(timerID: number): void;
+  now(): number; // Wall-clock time in milliseconds
+}
+
+// Player counts the guards are checked against
+export interface MatchRoster {
+  standbyCount: number; // Players ready for the next match
+  lobbyCount: number; // Players in the lobby who are not ready
+  racerCount: number; // Players racing in the current match, a relay team counts as one racer
+  matchFull: boolean; // True if the match has as many racers in standby as it allows
+}
+
+// Side effects of the state machine, run by its adapter
+export interface MatchStateListener {
+  onStateChanged(fromState: GameState, toState: GameState): void;
+  onCountdownTick(countdown: MatchCountdown, timeLeftMS: number): void;
+  onMatchAborted(): void; // Called just before an aborted match moves on, so its results are not counted
+  onReset(): void;
+}
+
+// Configuration of the match rules and countdowns
+export interface MatchStateConfig {
+  timeToMatchStartMS: number; // Time before match starts in milliseconds
+  timeToMatchEndMS: number; // Time before match ends in milliseconds
+  timeNewMatchReadyMS: number; // Time before a new match becomes ready in milliseconds
+  raceTimeLimitMS: number; // Hard race time limit in milliseconds, 0 for none
+  allFinishedTimeLimitMS: number; // Race time limit under AllFinished when there is no hard limit, so a racer who stopped racing cannot hold the match open
+  playersNeededForMatch: number; // Number of players needed to start a match
+  readyPercentageToStart: number; // Percentage of the players in the lobby who must be ready to start a match, from 0 to 100
+  matchEndRule: MatchEndRule; // Rule for ending the match
+  matchEndFinisherCount: number; // Number of finishers that ends the match under TopFinishers
+}
+
+export class MatchStateMachine {
+  private currentGameState = GameState.ReadyForMatch; // Tracks the current game state
+  private startMatchTimerID = 0; // Timer ID for match start
+  private endMatchTimerID = 0; // Timer ID for match end
+  private newMatchTimerID = 0; // Timer ID for new match readiness
+  private raceTimeLimitTimerID = 0; // Timer ID for the race time limit
+
+  private raceEndTimestampMS = 0; // Wall-clock time at which the race time limit runs out, 0 if there is none
+  private finishedPlayers = new Set<number>(); // IDs of the players, or relay teams, who have reached the goal this match
+
+  constructor(
+    private readonly config: MatchStateConfig,
+    private readonly timers: MatchTimers,
+    private readonly getRoster: () => MatchRoster,
+    private readonly listener: MatchStateListener,
+  ) { }
+
+  // Get the current game state
+  public getState(): GameState {
+    return this.currentGameState;
+  }
+
+  // Returns true if the transition table allows moving from one state to the other
+  public static canTransit(fromState: GameState, toState: GameState): boolean {
+    return matchTransitionTable[fromState].includes(toState);
+  }
+
+  // Get the time left before the race time limit runs out, or Infinity if there is no limit
+  public getRaceTimeLeftMS(): number {
+    return this.raceEndTimestampMS > 0 ? Math.max(this.raceEndTimestampMS - this.timers.now(), 0) : Infinity;
+  }
+
+  // A player joined standby, the match may have enough players to start
+  public playerJoinedStandby(): void {
+    this.startMatchIfEnoughPlayers();
+  }
+
+  // A player left standby, the match start is cancelled if there are not enough players left
+  public playerLeftStandby(): void {
+    if (this.currentGameState === GameState.StartingMatch && !this.hasEnoughReadyPlayers()) {
+      this.transitFromStartingToReady();
+    }
+  }
+
+  // A racer reached the goal, the match end rule may be met
+  public playerReachedGoal(playerID: number): void {
+    if (this.currentGameState === GameState.PlayingMatch) {
+      this.finishedPlayers.add(playerID);
+      this.checkMatchEndRule();
+    }
+  }
+
+  // A racer left the match, the remaining racers may all have finished
+  public playerLeftMatch(playerID: number): void {
+    if (this.currentGameState === GameState.PlayingMatch) {
+      this.finishedPlayers.delete(playerID);
+      this.checkMatchEndRule();
+    }
+  }
+
+  // A racer was eliminated, the remaining racers may all have finished
+  public playerEliminated(): void {
+    if (this.currentGameState === GameState.PlayingMatch) {
+      this.checkMatchEndRule();
+    }
+  }
+
+  // End the match being played right away
+  public endMatch(): void {
+    this.transitFromPlayingToEnding(0);
+  }
+
+  // Start the match countdown without waiting for enough ready players, or skip the countdown if it is already running
+  public forceStartMatch(): boolean {
+    if (this.currentGameState === GameState.ReadyForMatch) {
+      if (this.getRoster().standbyCount === 0) {
+        console.warn(`Cannot force start a match without players in standby`);
+        return false;
+      }
+      return this.transitFromReadyToStarting();
+    } else if (this.currentGameState === GameState.StartingMatch) {
+      this.timers.clearInterval(this.startMatchTimerID);
+      return this.transitFromStartingToPlaying();
+    }
+    return false;
+  }
+
+  // Abort the match without counting its results
+  public abortMatch(): boolean {
+    switch (this.currentGameState) {
+      case GameState.StartingMatch:
+        return this.transitFromStartingToReady();
+      case GameState.PlayingMatch:
+        this.listener.onMatchAborted();
+        return this.transitFromPlayingToEnding(0);
+      case GameState.EndingMatch:
+        this.listener.onMatchAborted();
+        this.timers.clearInterval(this.endMatchTimerID);
+        return this.transitFromEndingToCompleted();
+      default:
+        return false;
+    }
+  }
+
+  // Skip the countdown at the end of the match, or the one before the next match becomes ready
+  public skipEndCountdown(): boolean {
+    if (this.currentGameState === GameState.EndingMatch) {
+      this.timers.clearInterval(this.endMatchTimerID);
+      return this.transitFromEndingToCompleted();
+    } else if (this.currentGameState === GameState.CompletedMatch) {
+      this.timers.clearInterval(this.newMatchTimerID);
+      return this.transitFromCompletedToReady();
+    }
+    return false;
+  }
+
+  // Reset the game state and clear all timers
+  public reset(): void {
+    this.currentGameState = GameState.ReadyForMatch;
+    this.timers.clearInterval(this.startMatchTimerID);
+    this.timers.clearInterval(this.endMatchTimerID);
+    this.timers.clearInterval(this.newMatchTimerID);
+    this.timers.clearInterval(this.raceTimeLimitTimerID);
+    this.startMatchTimerID = 0;
+    this.endMatchTimerID = 0;
+    this.newMatchTimerID = 0;
+    this.raceTimeLimitTimerID = 0;
+    this.raceEndTimestampMS = 0;
+    this.finishedPlayers.clear();
+    this.listener.onReset();
+  }
+
+  // Start the match if enough players are available in standby
+  private startMatchIfEnoughPlayers(): void {
+    if (this.currentGameState === GameState.ReadyForMatch && this.hasEnoughReadyPlayers()) {
+      this.transitFromReadyToStarting();
+    }
+  }
+
+  // Returns true if enough players are in standby, and either the match is full or enough of the lobby is ready
+  private hasEnoughReadyPlayers(): boolean {
+    const roster = this.getRoster();
+    if (roster.standbyCount < this.config.playersNeededForMatch) {
+      return false;
+    }
+    if (roster.matchFull) {
+      return true;
+    }
+    const readyPercentage = Math.min(Math.max(this.config.readyPercentageToStart, 0), 100);
+    return roster.standbyCount * 100 >= readyPercentage * (roster.standbyCount + roster.lobbyCount);
+  }
+
+  // Check the finishers against the match end rule and start ending the match if it is met
+  private checkMatchEndRule(): void {
+    const totalRacers = this.getRoster().racerCount;
+    const totalFinished = this.finishedPlayers.size;
+
+    // Once every racer has finished there is nothing left to wait for, whatever the rule
+    let ruleMet = totalFinished >= totalRacers;
+    switch (this.config.matchEndRule) {
+      case MatchEndRule.FirstFinisher:
+        ruleMet = ruleMet || totalFinished >= 1;
+        break;
+      case MatchEndRule.TopFinishers:
+        ruleMet = ruleMet || totalFinished >= this.config.matchEndFinisherCount;
+        break;
+      case MatchEndRule.AllFinished:
+      case MatchEndRule.TimeLimit:
+        break;
+    }
+
+    if (ruleMet) {
+      this.transitFromPlayingToEnding(this.config.timeToMatchEndMS);
+    }
+  }
+
+  // General function to transition game states, guarded by the transition table
+  private transitGameState(fromState: GameState, toState: GameState): boolean {
+    if (fromState === toState) {
+      console.warn(`Trying to transit to the same state ${GameState[fromState]}, skipping`);
+      return false;
+    } else if (fromState !== this.currentGameState) {
+      console.warn(`Trying to transit from ${GameState[fromState]} when Current state is ${GameState[this.currentGameState]} `);
+      return false;
+    } else if (!MatchStateMachine.canTransit(fromState, toState)) {
+      console.warn(`Trying to transit from ${GameState[fromState]} to ${GameState[toState]}, which is not allowed`);
+      return false;
+    } else {
+      console.log(`Transiting from ${GameState[fromState]} to ${GameState[toState]}`);
+      this.currentGameState = toState;
+      this.listener.onStateChanged(fromState, toState);
+      return true;
+    }
+  }
+
+  // Transition from Starting to Ready state
+  private transitFromStartingToReady(): boolean {
+    const transited = this.transitGameState(GameState.StartingMatch, GameState.ReadyForMatch);
+    if (!transited) return false;
+    this.reset();
+    return true;
+  }
+
+  // Transition from Completed to Ready state
+  private transitFromCompletedToReady(): boolean {
+    const transited = this.transitGameState(GameState.CompletedMatch, GameState.ReadyForMatch);
+    if (!transited) return false;
+    this.reset();
+    this.startMatchIfEnoughPlayers(); // Players queued during the last match are already in standby
+    return true;
+  }
+
+  // Transition from Ready to Starting state
+  private transitFromReadyToStarting(): boolean {
+    const transited = this.transitGameState(GameState.ReadyForMatch, GameState.StartingMatch);
+    if (!transited) return false;
+
+    // Set a timer for the match to start
+    this.startMatchTimerID = this.startCountdown(MatchCountdown.MatchStart, this.config.timeToMatchStartMS,
+      () => this.transitFromStartingToPlaying());
+    return true;
+  }
+
+  // Transition from Starting to Playing state
+  private transitFromStartingToPlaying(): boolean {
+    const transited = this.transitGameState(GameState.StartingMatch, GameState.PlayingMatch);
+    if (!transited) return false;
+    this.finishedPlayers.clear();
+
+    // Set a timer for the race time limit, if there is one
+    const raceTimeLimitMS = this.getRaceTimeLimitMS();
+    if (raceTimeLimitMS > 0) {
+      this.raceEndTimestampMS = this.timers.now() + raceTimeLimitMS;
+      this.raceTimeLimitTimerID = this.startCountdown(MatchCountdown.RaceTimeLimit, raceTimeLimitMS,
+        () => this.transitFromPlayingToEnding(0));
+    }
+    return true;
+  }
+
+  // Get the race time limit of the match end rule, 0 for none
+  private getRaceTimeLimitMS(): number {
+    if (this.config.raceTimeLimitMS > 0) {
+      return this.config.raceTimeLimitMS;
+    }
+    return this.config.matchEndRule === MatchEndRule.AllFinished ? this.config.allFinishedTimeLimitMS : 0;
+  }
+
+  // Transition from Playing to Ending state, ending the match after the given countdown
+  private transitFromPlayingToEnding(timeToMatchEndMS: number): boolean {
+    const transited = this.transitGameState(GameState.PlayingMatch, GameState.EndingMatch);
+    if (!transited) return false;
+
+    // The race time limit still applies while the match is ending
+    this.timers.clearInterval(this.raceTimeLimitTimerID);
+    const raceTimeLeftMS = this.getRaceTimeLeftMS();
+    if (raceTimeLeftMS < timeToMatchEndMS) {
+      timeToMatchEndMS = Math.floor(raceTimeLeftMS / 1000) * 1000;
+    }
+
+    if (timeToMatchEndMS <= 0) {
+      this.transitFromEndingToCompleted();
+      return true;
+    }
+
+    // Set a timer for the match to end
+    this.endMatchTimerID = this.startCountdown(MatchCountdown.MatchEnd, timeToMatchEndMS,
+      () => this.transitFromEndingToCompleted());
+    return true;
+  }
+
+  // Transition from Ending to Completed state
+  private transitFromEndingToCompleted(): boolean {
+    const transited = this.transitGameState(GameState.EndingMatch, GameState.CompletedMatch);
+    if (!transited) return false;
+
+    // Set a timer for a new match to become available
+    this.newMatchTimerID = this.startCountdown(MatchCountdown.NewMatch, this.config.timeNewMatchReadyMS,
+      () => this.transitFromCompletedToReady());
+    return true;
+  }
+
+  // Tick the countdown once a second from its time down to one second, then run the end action a second later
+  private startCountdown(countdown: MatchCountdown, timerMS: number, onEndAction: () => void): number {
+    let timeLeftMS = timerMS;
+    const timerID = this.timers.setInterval(() => {
+      if (timeLeftMS > 0) {
+        this.listener.onCountdownTick(countdown, timeLeftMS);
+        timeLeftMS -= 1000;
+      } else {
+        this.timers.clearInterval(timerID);
+        onEndAction();
+      }
+    }, 1000);
+    return timerID;
+  }
+}
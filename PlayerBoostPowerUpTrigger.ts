@@ -8,6 +8,9 @@ import { PlayerFireEventOnTriggerBase } from 'PlayerEventTriggerBase';
  * When a player enters the trigger area, an event is sent to their local controller to allow boosting.
  */
 class PlayerBoostPowerUpTrigger extends PlayerFireEventOnTriggerBase<typeof PlayerBoostPowerUpTrigger> {
+  // Spectators cannot pick up boosts
+  protected blockSpectators = true;
+
   // Override method: Handle entity entering the trigger
   protected onEntityEnterTrigger(_enteredBy: hz.Entity): void { }
 
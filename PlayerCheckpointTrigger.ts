@@ -0,0 +1,65 @@
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { PlayerFireEventOnTriggerBase } from 'PlayerEventTriggerBase';
+
+/**
+ * PlayerCheckpointTrigger Component
+ * This component extends the PlayerFireEventOnTriggerBase class and marks a checkpoint gate along the race track.
+ * Each checkpoint has an order index; the RaceManager only counts a finish once every checkpoint has been passed in order.
+ */
+class PlayerCheckpointTrigger extends PlayerFireEventOnTriggerBase<typeof PlayerCheckpointTrigger> {
+  // Define properties available for configuration in the component property panel
+  static propsDefinition = {
+    checkpointIndex: { type: hz.PropTypes.Number, default: 0 }, // Order of this checkpoint along the track, lowest is passed first
+  };
+
+  // Spectators cannot pass checkpoints
+  protected blockSpectators = true;
+
+  /**
+   * Start lifecycle method
+   * Registers this checkpoint and its order index with the RaceManager.
+   */
+  start() {
+    this.sendLocalBroadcastEvent(Events.onRegisterCheckpoint, {
+      caller: this.entity,
+      checkpointIndex: this.props.checkpointIndex,
+    });
+  }
+
+  /**
+   * Override method: Handle entity entering the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _enteredBy - The entity that entered the trigger area.
+   */
+  protected onEntityEnterTrigger(_enteredBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle entity exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _exitedBy - The entity that exited the trigger area.
+   */
+  protected onEntityExitTrigger(_exitedBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle player exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Player} _exitedBy - The player that exited the trigger area.
+   */
+  protected onPlayerExitTrigger(_exitedBy: hz.Player): void { }
+
+  /**
+   * Override method: Handle player entering the trigger area
+   * Informs the RaceManager that the player has entered this checkpoint, which then validates the checkpoint order.
+   * @param {hz.Player} enteredBy - The player who entered the trigger area.
+   */
+  protected onPlayerEnterTrigger(enteredBy: hz.Player): void {
+    this.sendLocalBroadcastEvent(Events.onPlayerEnteredCheckpoint, {
+      player: enteredBy,
+      checkpointIndex: this.props.checkpointIndex,
+    });
+  }
+}
+
+// Register the PlayerCheckpointTrigger component with the framework
+hz.Component.register(PlayerCheckpointTrigger);
@@ -3,6 +3,7 @@
  * Additionally, for responsiveness of game effects, it also plays SFX and VFX for players.
  */
 import { Events } from "Events";
+import { PlayerAbility } from "GameUtils";
 import * as hz from "horizon/core";
 import * as MathUtils from "MathUtils";
 
@@ -179,6 +180,7 @@ export class PlayerControllerLocal extends hz.Component<
 
         this.doubleJumpSFX?.play(this.localSFXSettings!); // Play double jump sound
         this.sendNetworkEvent(this.owner, Events.onPlayerUsedDoubleJump, {}); // Notify network of double jump
+        this.sendNetworkBroadcastEvent(Events.onPlayerAbilityUsed, { player: this.owner, ability: PlayerAbility.DoubleJump }); // Notify the server for career stats
       }
     });
   }
@@ -242,6 +244,7 @@ export class PlayerControllerLocal extends hz.Component<
         this.entity.position.set(this.owner.position.get()); // Sync entity position with player
         this.boostUsedParticleVFX?.play(); // Play boost particle effect
         this.sendLocalEvent(this.owner, Events.onPlayerUsedBoost, {}); // Notify boost usage
+        this.sendNetworkBroadcastEvent(Events.onPlayerAbilityUsed, { player: this.owner, ability: PlayerAbility.Boost }); // Notify the server for career stats
       }
     });
   }
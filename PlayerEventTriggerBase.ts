@@ -3,6 +3,8 @@
  * This serves as a foundation for other components that need to handle trigger events involving players or entities.
  */
 import * as hz from 'horizon/core';
+import { PlayerGameStatus } from 'GameUtils';
+import { MatchManager } from 'MatchManager';
 
 export abstract class PlayerFireEventOnTriggerBase<TProps> extends hz.Component<TProps> {
   // Event subscriptions for entering and exiting triggers
@@ -11,6 +13,9 @@ export abstract class PlayerFireEventOnTriggerBase<TProps> extends hz.Component<
   private onPlayerEnterTriggerEvent: hz.EventSubscription | null = null;
   private onPlayerExitTriggerEvent: hz.EventSubscription | null = null;
 
+  // Set by race triggers so that spectating and eliminated players cannot fire them
+  protected blockSpectators = false;
+
   // Called before the component starts
   preStart() {
     // Connect the entity to trigger events for entering and exiting
@@ -29,7 +34,12 @@ export abstract class PlayerFireEventOnTriggerBase<TProps> extends hz.Component<
     this.onPlayerEnterTriggerEvent = this.connectCodeBlockEvent(
       this.entity,
       hz.CodeBlockEvents.OnPlayerEnterTrigger,
-      this.onPlayerEnterTrigger.bind(this)
+      (enteredBy: hz.Player) => {
+        if (this.blockSpectators && this.isSpectator(enteredBy)) {
+          return;
+        }
+        this.onPlayerEnterTrigger(enteredBy);
+      }
     ); // Register the callback for when a player enters the trigger
 
     this.onPlayerExitTriggerEvent = this.connectCodeBlockEvent(
@@ -39,6 +49,12 @@ export abstract class PlayerFireEventOnTriggerBase<TProps> extends hz.Component<
     ); // Register the callback for when a player exits the trigger
   }
 
+  // Returns true if the player is watching the match rather than racing in it
+  private isSpectator(player: hz.Player): boolean {
+    const status = MatchManager.getInstance()?.getPlayerGameStatus(player);
+    return status === PlayerGameStatus.Spectating || status === PlayerGameStatus.Eliminated;
+  }
+
   // Start method that can be overridden by derived classes
   start() { }
 
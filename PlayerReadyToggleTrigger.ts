@@ -0,0 +1,43 @@
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { PlayerFireEventOnTriggerBase } from 'PlayerEventTriggerBase';
+
+/**
+ * PlayerReadyToggleTrigger Component
+ * This component extends the PlayerFireEventOnTriggerBase class and toggles whether the player is ready for the next match.
+ * Players who step on it while the match is full are queued, and step on it again to leave the queue.
+ */
+class PlayerReadyToggleTrigger extends PlayerFireEventOnTriggerBase<typeof PlayerReadyToggleTrigger> {
+  /**
+   * Override method: Handle entity entering the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _enteredBy - The entity that entered the trigger area.
+   */
+  protected onEntityEnterTrigger(_enteredBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle entity exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _exitedBy - The entity that exited the trigger area.
+   */
+  protected onEntityExitTrigger(_exitedBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle player exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Player} _exitedBy - The player that exited the trigger area.
+   */
+  protected onPlayerExitTrigger(_exitedBy: hz.Player): void { }
+
+  /**
+   * Override method: Handle player entering the trigger area
+   * Asks the MatchManager to toggle whether the player is ready.
+   * @param {hz.Player} enteredBy - The player who entered the trigger area.
+   */
+  protected onPlayerEnterTrigger(enteredBy: hz.Player): void {
+    this.sendLocalBroadcastEvent(Events.onTogglePlayerReady, { player: enteredBy });
+  }
+}
+
+// Register the PlayerReadyToggleTrigger component with the framework
+hz.Component.register(PlayerReadyToggleTrigger);
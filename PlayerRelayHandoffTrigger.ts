@@ -0,0 +1,46 @@
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { PlayerFireEventOnTriggerBase } from 'PlayerEventTriggerBase';
+
+/**
+ * PlayerRelayHandoffTrigger Component
+ * This component extends the PlayerFireEventOnTriggerBase class and marks the baton hand-off zone of a relay race.
+ * When the runner on the track reaches it at the end of their leg, the RaceManager sends out the next runner of their team.
+ */
+class PlayerRelayHandoffTrigger extends PlayerFireEventOnTriggerBase<typeof PlayerRelayHandoffTrigger> {
+  // Spectators cannot take the baton
+  protected blockSpectators = true;
+
+  /**
+   * Override method: Handle entity entering the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _enteredBy - The entity that entered the trigger area.
+   */
+  protected onEntityEnterTrigger(_enteredBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle entity exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _exitedBy - The entity that exited the trigger area.
+   */
+  protected onEntityExitTrigger(_exitedBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle player exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Player} _exitedBy - The player that exited the trigger area.
+   */
+  protected onPlayerExitTrigger(_exitedBy: hz.Player): void { }
+
+  /**
+   * Override method: Handle player entering the trigger area
+   * Informs the RaceManager that the player has reached the hand-off zone, which then validates their leg.
+   * @param {hz.Player} enteredBy - The player who entered the trigger area.
+   */
+  protected onPlayerEnterTrigger(enteredBy: hz.Player): void {
+    this.sendLocalBroadcastEvent(Events.onPlayerEnteredRelayHandoff, { player: enteredBy });
+  }
+}
+
+// Register the PlayerRelayHandoffTrigger component with the framework
+hz.Component.register(PlayerRelayHandoffTrigger);
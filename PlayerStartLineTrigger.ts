@@ -0,0 +1,46 @@
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { PlayerFireEventOnTriggerBase } from 'PlayerEventTriggerBase';
+
+/**
+ * PlayerStartLineTrigger Component
+ * This component extends the PlayerFireEventOnTriggerBase class and marks the start line of the race.
+ * The FalseStartManager penalizes racers who cross it during the StartingMatch countdown.
+ */
+class PlayerStartLineTrigger extends PlayerFireEventOnTriggerBase<typeof PlayerStartLineTrigger> {
+  // Spectators are not racing, so they cannot false start
+  protected blockSpectators = true;
+
+  /**
+   * Override method: Handle entity entering the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _enteredBy - The entity that entered the trigger area.
+   */
+  protected onEntityEnterTrigger(_enteredBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle entity exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _exitedBy - The entity that exited the trigger area.
+   */
+  protected onEntityExitTrigger(_exitedBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle player exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Player} _exitedBy - The player that exited the trigger area.
+   */
+  protected onPlayerExitTrigger(_exitedBy: hz.Player): void { }
+
+  /**
+   * Override method: Handle player entering the trigger area
+   * Informs the FalseStartManager that the player has crossed the start line.
+   * @param {hz.Player} enteredBy - The player who entered the trigger area.
+   */
+  protected onPlayerEnterTrigger(enteredBy: hz.Player): void {
+    this.sendLocalBroadcastEvent(Events.onPlayerCrossedStartLine, { player: enteredBy });
+  }
+}
+
+// Register the PlayerStartLineTrigger component with the framework
+hz.Component.register(PlayerStartLineTrigger);
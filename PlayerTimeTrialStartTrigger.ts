@@ -0,0 +1,43 @@
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { PlayerFireEventOnTriggerBase } from 'PlayerEventTriggerBase';
+
+/**
+ * PlayerTimeTrialStartTrigger Component
+ * This component extends the PlayerFireEventOnTriggerBase class and starts a solo time trial for the player who enters it.
+ * Entering the trigger again while on a time trial restarts the run.
+ */
+class PlayerTimeTrialStartTrigger extends PlayerFireEventOnTriggerBase<typeof PlayerTimeTrialStartTrigger> {
+  /**
+   * Override method: Handle entity entering the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _enteredBy - The entity that entered the trigger area.
+   */
+  protected onEntityEnterTrigger(_enteredBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle entity exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Entity} _exitedBy - The entity that exited the trigger area.
+   */
+  protected onEntityExitTrigger(_exitedBy: hz.Entity): void { }
+
+  /**
+   * Override method: Handle player exiting the trigger area
+   * Currently not used for any functionality.
+   * @param {hz.Player} _exitedBy - The player that exited the trigger area.
+   */
+  protected onPlayerExitTrigger(_exitedBy: hz.Player): void { }
+
+  /**
+   * Override method: Handle player entering the trigger area
+   * Registers the player for a solo time trial, which starts their private timer.
+   * @param {hz.Player} enteredBy - The player who entered the trigger area.
+   */
+  protected onPlayerEnterTrigger(enteredBy: hz.Player): void {
+    this.sendLocalBroadcastEvent(Events.onRegisterPlayerForTimeTrial, { player: enteredBy });
+  }
+}
+
+// Register the PlayerTimeTrialStartTrigger component with the framework
+hz.Component.register(PlayerTimeTrialStartTrigger);
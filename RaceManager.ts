@@ -3,38 +3,77 @@
  */
 
 import * as hz from 'horizon/core';
-import { Curve, PlayerGameStatus, CurveVisualizer, GameState, msToMinutesAndSeconds } from 'GameUtils';
+import { Curve, PlayerGameStatus, CurveVisualizer, GameState, RaceClock, RaceResult, FalseStartPenalty, ScoreboardRow, ScoreboardStatus } from 'GameUtils';
 import { Events } from "Events";
-import { MatchManager } from 'MatchManager';
+import { MatchManager, RelayTeam } from 'MatchManager';
 
-// Defines the structure for a race participant, including the player reference, last known race time, race progress, and position.
+// A sample of a race participant's position and rotation, taken at a time on the race clock.
+export type RacePathSample = { time: number, position: hz.Vec3, rotation: hz.Quaternion };
+
+// Defines the structure for a race participant, including the player reference, last known race time, race progress, position, last checkpoint passed and laps.
 type RaceParticipant = { 
   player: hz.Player, 
   lastKnownRaceTime: number, 
-  lastKnownRaceProgress: number, 
-  lastKnownPosition: hz.Vec3 
+  lastKnownRaceProgress: number, // Progress along the current lap as a fraction of the track distance, from 0 to 1
+  lastKnownPosition: hz.Vec3,
+  lastCheckpointIndex: number, // Order index of the last checkpoint passed on the current lap, or -1 if none
+  currentLap: number, // Lap the participant is currently on, starting at 1
+  lapStartTime: number, // Match time at which the current lap started
+  lapTimes: number[], // Times of each completed lap
+  finishTime: number | null, // Race clock time at which the participant finished, or null if they have not
+  pathSamples: RacePathSample[], // Position and rotation samples of the participant's run, taken at a fixed rate
+  recentSpeed: number, // Smoothed speed along the race curve in world units per second, used to estimate time gaps
+  speedSampleDistance: number, // Race distance covered at the last speed sample
+  speedSampleTime: number // Match time of the last speed sample
+};
+
+// Defines where a racer, or a relay team, stands in the race for estimating the time gaps between them.
+type RaceStanding = {
+  distance: number, // Distance covered along the race curve, counting completed laps and relay legs
+  speed: number, // Recent speed along the race curve
+  finishTime: number | null // Race clock time of the finish, or null if not finished
+};
+
+// Defines the progress of a relay team, only one runner of the team is on the track at a time.
+type RelayTeamProgress = {
+  team: RelayTeam,
+  currentLeg: number, // Leg the team is currently running, starting at 1
+  legStartTime: number, // Match time at which the current leg started
+  legTimes: number[], // Times of each completed leg
+  finishTime: number | null // Race clock time at which the team finished, or null if it has not
 };
 
 export class RaceManager extends hz.Component<typeof RaceManager> {
   
   static propsDefinition = {
-    startLineRaceUI: { type: hz.PropTypes.Entity }, // Reference to the UI component at the start line
-    finishLineRaceUI: { type: hz.PropTypes.Entity }, // Reference to the UI component at the finish line
     trackPointsParent: { type: hz.PropTypes.Entity }, // Entity that holds all the track points for race calculations
     curveVisualizer: { type: hz.PropTypes.Entity }, // Entity responsible for visualizing the race curve
+    lapCount: { type: hz.PropTypes.Number, default: 1 }, // Number of laps in the race, use 1 for point-to-point tracks
+    pathSampleIntervalMS: { type: hz.PropTypes.Number, default: 250 }, // Interval for sampling each racer's position and rotation
+    relayWaitingSpawnPoint: { type: hz.PropTypes.Entity }, // Spawn point where relay runners wait off the track while a teammate runs
+    relayHandoffSpawnPoint: { type: hz.PropTypes.Entity }, // Spawn point where each relay runner after the first takes the baton and starts their leg
   };
 
   private raceUpdateIntervalID: number = 0; // Interval ID for updating race progress
+  private pathSampleIntervalID: number = 0; // Interval ID for sampling racer paths
   
   private raceCurve!: Curve; // Represents the race path using a curve with multiple checkpoints
   private raceParticipants = new Map<number, RaceParticipant>(); // Maps player ID to their respective race progress data
   private raceWinners = new Set<RaceParticipant>(); // Set containing all the players who have finished the race
-  private matchTime = 0; // Current match time in milliseconds
+  private raceEliminated: RaceParticipant[] = []; // Players knocked out of the race, in order of elimination
+  private relayTeams = new Map<number, RelayTeamProgress>(); // Maps player ID to the progress of their relay team, empty if the race is not a relay
+  private relayFinishOrder: RelayTeamProgress[] = []; // Relay teams that have finished, in order of their finish
+  private relayLegCount = 0; // Number of legs each relay team runs
+  private raceSpectators = new Map<number, hz.Player>(); // Maps player ID to the spectators who are sent race updates
+  private falseStarts = new Map<number, { player: hz.Player, penalty: FalseStartPenalty, timePenaltyMS: number }>(); // Maps player ID to their false start in the countdown
+  private checkpointOrder: number[] = []; // Sorted order indices of all registered checkpoints
+  private raceClock = new RaceClock(); // Authoritative race clock, started when the match starts playing
+  private matchAborted = false; // True if an admin aborted the match, so its results are not counted
   
-  private startLineRaceUI: hz.TextGizmo | null = null; // UI component at the start line
-  private finishLineRaceUI: hz.TextGizmo | null = null; // UI component at the finish line
-
-  private readonly defaultRaceUIText = ""; // Default text for race UI
+  private readonly finishersTitle = "Finishers"; // Scoreboard title while the race is running
+  private readonly resultsTitle = "Results"; // Scoreboard title once the match is completed
+  private readonly speedSmoothing = 0.5; // Weight of the newest speed sample in a racer's recent speed
+  private readonly minGapSpeed = 1; // Lowest speed used for gap estimates, so a racer standing still gets a finite gap
 
   private static s_instance: RaceManager;
   public static getInstance(): RaceManager {
@@ -55,13 +94,22 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
    * Sets up all the initial properties and connections before the race starts.
    */
   preStart() {
-    this.startLineRaceUI = this.props.startLineRaceUI!.as(hz.TextGizmo)!;
-    this.finishLineRaceUI = this.props.finishLineRaceUI!.as(hz.TextGizmo)!;
+    // Listen for checkpoints registering themselves along the track
+    this.connectLocalBroadcastEvent(Events.onRegisterCheckpoint,
+      (data) => {
+        this.registerCheckpoint(data.checkpointIndex);
+      });
+
+    // Listen for the event when a player enters a checkpoint
+    this.connectLocalBroadcastEvent(Events.onPlayerEnteredCheckpoint,
+      (data) => {
+        this.handleOnPlayerEnteredCheckpoint(data.player, data.checkpointIndex);
+      });
 
-    // Listen for the event when a player reaches the goal
-    this.connectLocalBroadcastEvent(Events.onPlayerReachedGoal,
+    // Listen for the event when a player enters the goal
+    this.connectLocalBroadcastEvent(Events.onPlayerEnteredGoal,
       (data) => {
-        this.playerFinishedRace(data.player);
+        this.handleOnPlayerEnteredGoal(data.player);
       });
 
     // Listen for the event when a player leaves the match
@@ -69,31 +117,48 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
       this.handleOnPlayerLeftMatch(data.player);
     });
 
+    // Listen for the event when an admin aborts the match
+    this.connectLocalBroadcastEvent(Events.onMatchAborted, () => {
+      this.matchAborted = true;
+    });
+
     // Handle the game state changes to control the flow of the match
     this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
       if (data.fromState === GameState.EndingMatch && data.toState === GameState.CompletedMatch) {
         this.handleOnMatchEnd(); // Handle end-of-match scenarios
       } else if (data.fromState === GameState.StartingMatch && data.toState === GameState.PlayingMatch) {
         this.handleOnMatchStart(); // Handle match starting scenarios
+      } else if (data.toState === GameState.StartingMatch) {
+        this.falseStarts.clear(); // Forget the false starts of a countdown that was cancelled
       }
     });
 
-    // Continuously update the match time while the race is ongoing
-    this.connectLocalBroadcastEvent(
-      hz.World.onUpdate,
+    // Listen for the event when a racer crosses the start line before the match starts
+    this.connectLocalBroadcastEvent(Events.onPlayerFalseStart, (data) => {
+      this.falseStarts.set(data.player.id, data);
+    });
+
+    // Listen for the event when a relay runner enters the hand-off zone
+    this.connectLocalBroadcastEvent(Events.onPlayerEnteredRelayHandoff,
       (data) => {
-        if (this.raceParticipants.size > 0) {
-          this.matchTime += data.deltaTime; // Increment match time by the delta time
-        }
-      }
-    );
+        this.handleOnPlayerEnteredRelayHandoff(data.player);
+      });
+
+    // Listen for the event when a player is knocked out of the race
+    this.connectLocalBroadcastEvent(Events.onPlayerEliminated, (data) => {
+      this.handleOnPlayerEliminated(data.player);
+    });
 
     // Listen for world reset events
     this.connectNetworkBroadcastEvent(Events.onResetWorld, (data) => { this.reset() });
 
+    // Stop sending race updates to spectators who leave the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.raceSpectators.delete(player.id);
+    });
+
     // Initialize the race track curve using checkpoint positions
     this.raceCurve = this.initCurve(this.props.trackPointsParent!.children.get()!);
-    this.handleUpdateRaceUI(this.defaultRaceUIText);
     this.reset(); // Reset any previous state
   }
 
@@ -114,11 +179,118 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
     return this.raceParticipants.get(player.id) || null;
   }
 
+  /**
+   * Gets the order indices of all registered checkpoints, in the order they have to be passed.
+   * @returns The sorted checkpoint order indices.
+   */
+  public getCheckpointOrder(): number[] {
+    return this.checkpointOrder.slice();
+  }
+
+  /**
+   * Gets how far along the race curve a position is, for runs that are tracked outside of the race.
+   * @param position The position to locate on the race curve.
+   * @param hintProgress The last known progress of the run, to warm start the search.
+   * @returns The progress along the race curve, from 0 at the start to 1 at the goal.
+   */
+  public getTrackProgress(position: hz.Vec3, hintProgress: number): number {
+    let progress = this.raceCurve.findClosestPointCurveProgress(position, hintProgress);
+
+    // On a circuit the start of a lap sits right next to the end of the curve,
+    // so keep the progress at the start until the run has actually moved along the lap
+    if (this.getLapCount() > 1 && hintProgress < 0.25 && progress > 0.75) {
+      progress = 0;
+    }
+    return progress;
+  }
+
+  /**
+   * Gets the current time of the authoritative race clock.
+   * @returns The time in seconds since the match started playing, or 0 if no race is running.
+   */
+  public getMatchTime(): number {
+    return this.raceClock.getElapsedSeconds();
+  }
+
+  /**
+   * Gets the finish time stamped for a player when they reached the goal.
+   * @param player The player whose finish time is requested.
+   * @returns The finish time in seconds, or null if the player has not finished.
+   */
+  public getFinishTime(player: hz.Player): number | null {
+    return this.raceParticipants.get(player.id)?.finishTime ?? null;
+  }
+
+  /**
+   * Gets the results of the race so far: finishers in order of their finish, then the racers still on the track,
+   * then the eliminated racers with the last one knocked out first.
+   * @returns The result of every race participant in order of position.
+   */
+  public getRaceResults(): RaceResult[] {
+    if (this.isRelayRace()) {
+      return this.getRelayTeamResults();
+    }
+    return this.getSortedParticipants().map((rp, index) => ({
+      player: rp.player,
+      position: index + 1,
+      finishTime: rp.finishTime,
+    }));
+  }
+
+  /**
+   * Sorts the race participants by position, the racers still on the track by their lap and then their progress along the race curve.
+   * @returns The race participants in order of position.
+   */
+  private getSortedParticipants(): RaceParticipant[] {
+    const stillRacing = Array.from(this.raceParticipants.values())
+      .filter((rp) => this.isStillRacing(rp))
+      .sort((a, b) => (b.currentLap - a.currentLap) || (b.lastKnownRaceProgress - a.lastKnownRaceProgress));
+
+    return this.getFinishers()
+      .concat(stillRacing)
+      .concat(this.raceEliminated.slice().reverse());
+  }
+
+  /**
+   * Returns the participants who have finished, in order of their finish time including any time penalty.
+   */
+  private getFinishers(): RaceParticipant[] {
+    return Array.from(this.raceWinners.keys()).sort((a, b) => (a.finishTime ?? 0) - (b.finishTime ?? 0));
+  }
+
+  /**
+   * Returns the false start time penalty of a player in seconds, 0 if they have none.
+   * @param player The player.
+   */
+  private getTimePenalty(player: hz.Player): number {
+    return (this.falseStarts.get(player.id)?.timePenaltyMS ?? 0) / 1000;
+  }
+
+  /**
+   * Returns true if the participant has neither finished the race nor been eliminated.
+   * @param rp The race participant.
+   */
+  private isStillRacing(rp: RaceParticipant): boolean {
+    const relayTeam = this.relayTeams.get(rp.player.id);
+    if (relayTeam && (relayTeam.finishTime !== null || this.getActiveRunner(relayTeam)?.id !== rp.player.id)) {
+      return false; // Relay runners are only racing during their own leg
+    }
+    return !this.raceWinners.has(rp) && !this.raceEliminated.includes(rp);
+  }
+
+  /**
+   * Returns true if the race is run between relay teams.
+   */
+  public isRelayRace(): boolean {
+    return this.relayTeams.size > 0;
+  }
+
   /**
    * Handles the start of a match, initializing players and starting the progress tracking loop.
    */
   private handleOnMatchStart() {
-    this.handleUpdateRaceUI(this.defaultRaceUIText); // Clear the UI with default text
+    this.handleUpdateScoreboard("", []); // Clear the scoreboards
+    this.raceClock.start(); // Stamp the start of the race
 
     const distThresholdCheckProgress = 0.5; // Distance threshold for checking player movement progress
     const players = MatchManager.getInstance().getPlayersWithStatus(PlayerGameStatus.Playing);
@@ -131,33 +303,164 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
           player: players[i],
           lastKnownRaceTime: 0,
           lastKnownRaceProgress: 0,
-          lastKnownPosition: hz.Vec3.zero
+          lastKnownPosition: hz.Vec3.zero,
+          lastCheckpointIndex: -1,
+          currentLap: 1,
+          lapStartTime: 0,
+          lapTimes: [],
+          finishTime: null,
+          pathSamples: [],
+          recentSpeed: 0,
+          speedSampleDistance: 0,
+          speedSampleTime: 0
         });
     }
+    this.initRelayTeams(MatchManager.getInstance().getRelayTeams());
+
+    // Start the interval that samples the path of each player still racing
+    this.samplePlayerPaths();
+    this.pathSampleIntervalID = this.async.setInterval(() => {
+      this.samplePlayerPaths();
+    }, this.props.pathSampleIntervalMS);
 
     // Start the interval that calculates the progress of each player every 500ms
     this.raceUpdateIntervalID = this.async.setInterval(() => {
       this.updateAllRacerCurveProgress(distThresholdCheckProgress);
+      this.updateSpectators();
+      this.broadcastRaceProgress();
 
-      // Sort players by their progress along the race curve (descending order)
-      const racePositions = Array.from(this.raceParticipants.values()).sort((a, b) => {
-        return b.lastKnownRaceProgress - a.lastKnownRaceProgress;
-      });
+      if (this.isRelayRace()) {
+        this.updateRelayTeamPositions();
+        return;
+      }
 
-      // Notify players of their position in the race
+      // Sort players by their position in the race, eliminated players are no longer counted
+      const racePositions = this.getSortedParticipants();
+      const totalRacers = this.raceParticipants.size - this.raceEliminated.length;
+      const gaps = this.estimateTimeGaps(
+        racePositions.map((rp) => ({ distance: this.getRaceDistance(rp), speed: rp.recentSpeed, finishTime: rp.finishTime })),
+        this.getLapCount() * this.raceCurve.length);
+
+      // Notify players of their position in the race and their time gaps to the racer ahead and the leader
       racePositions.forEach((entry, index) => {
-        if (entry.player && !this.raceWinners.has(entry)) {
+        if (entry.player && this.isStillRacing(entry)) {
           this.sendNetworkEvent(entry.player,
             Events.onRacePosUpdate, {
               playerPos: (index + 1), // Position in race
-              totalRacers: this.raceParticipants.size,
-              matchTime: this.matchTime
+              totalRacers,
+              matchTime: this.getMatchTime(),
+              currentLap: entry.currentLap,
+              totalLaps: this.getLapCount(),
+              currentLeg: 1,
+              totalLegs: 1,
+              gapToNext: gaps[index].gapToNext,
+              gapToLeader: gaps[index].gapToLeader
           });
         }
       });
     }, 500);
   }
 
+  /**
+   * Sends the progress of the race to every player watching it, late joiners as well as eliminated racers.
+   */
+  private updateSpectators() {
+    const matchManager = MatchManager.getInstance();
+    const spectators = matchManager.getPlayersWithStatus(PlayerGameStatus.Spectating)
+      .concat(matchManager.getPlayersWithStatus(PlayerGameStatus.Eliminated));
+    if (spectators.length === 0) { return; }
+
+    let leaderName = "";
+    let leaderLap = 1;
+    let racersFinished = 0;
+    let totalRacers = 0;
+    if (this.isRelayRace()) {
+      const sortedTeams = this.getSortedRelayTeams();
+      const leaderRunner = sortedTeams.length > 0 ? this.getActiveRunner(sortedTeams[0]) : undefined;
+      leaderName = sortedTeams.length > 0 ? `Team ${sortedTeams[0].team.teamNumber}` : "";
+      leaderLap = (leaderRunner ? this.raceParticipants.get(leaderRunner.id)?.currentLap : undefined) ?? 1;
+      racersFinished = this.relayFinishOrder.length;
+      totalRacers = sortedTeams.length;
+    } else {
+      const leader = this.getSortedParticipants()[0];
+      leaderName = leader ? leader.player.name.get() : "";
+      leaderLap = leader ? leader.currentLap : 1;
+      racersFinished = this.raceWinners.size;
+      totalRacers = this.raceParticipants.size - this.raceEliminated.length;
+    }
+
+    spectators.forEach((spectator) => {
+      this.raceSpectators.set(spectator.id, spectator);
+      this.sendNetworkEvent(spectator, Events.onSpectatorRaceUpdate, {
+        leaderName,
+        leaderLap,
+        totalLaps: this.getLapCount(),
+        racersFinished,
+        totalRacers,
+        matchTime: this.getMatchTime()
+      });
+    });
+  }
+
+  /**
+   * Broadcasts how far through the race every racer is, in order of position, for the progress strips on the HUDs.
+   * A relay team is shown as its active runner. Eliminated racers are left out.
+   */
+  private broadcastRaceProgress() {
+    const racerIDs: number[] = [];
+    const progress: number[] = [];
+    const lapCount = this.getLapCount();
+
+    if (this.isRelayRace()) {
+      this.getSortedRelayTeams().forEach((relayTeam) => {
+        const runner = this.getActiveRunner(relayTeam);
+        const rp = runner ? this.raceParticipants.get(runner.id) : undefined;
+        if (!runner || !rp) { return; }
+
+        const lapsDone = (relayTeam.currentLeg - 1) * lapCount + rp.currentLap - 1 + rp.lastKnownRaceProgress;
+        racerIDs.push(runner.id);
+        progress.push(relayTeam.finishTime !== null ? 1 : lapsDone / (this.relayLegCount * lapCount));
+      });
+    } else {
+      this.getSortedParticipants().forEach((rp) => {
+        if (this.raceEliminated.includes(rp)) { return; }
+
+        racerIDs.push(rp.player.id);
+        progress.push(rp.finishTime !== null ? 1 : (rp.currentLap - 1 + rp.lastKnownRaceProgress) / lapCount);
+      });
+    }
+
+    // Rounded to keep the event small, the strip cannot show more detail
+    this.sendNetworkBroadcastEvent(Events.onRaceProgressUpdate, {
+      racerIDs,
+      progress: progress.map((value) => Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000),
+    });
+  }
+
+  /**
+   * Records a position and rotation sample for every participant who has not finished yet.
+   */
+  private samplePlayerPaths() {
+    const matchTime = this.getMatchTime();
+    this.raceParticipants.forEach((participant) => {
+      if (!participant.player || !this.isStillRacing(participant)) { return; }
+      this.addPathSample(participant, matchTime);
+    });
+  }
+
+  /**
+   * Adds a sample of the participant's current position and rotation to their path.
+   * @param participant The race participant to sample.
+   * @param matchTime The race clock time of the sample.
+   */
+  private addPathSample(participant: RaceParticipant, matchTime: number) {
+    participant.pathSamples.push({
+      time: matchTime,
+      position: participant.player.position.get(),
+      rotation: participant.player.rotation.get()
+    });
+  }
+
   /**
    * Updates the progress of all players along the race curve.
    * @param distThresholdCheckProgress The minimum distance threshold to consider a player as having moved.
@@ -165,33 +468,95 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
   private updateAllRacerCurveProgress(distThresholdCheckProgress: number) {
     this.raceParticipants.forEach((participant) => {
       const plyr = participant.player;
-      if (!plyr || this.raceWinners.has(participant)) { return; }
+      if (!plyr || !this.isStillRacing(participant)) { return; }
       const plyrPos = participant.player.position.get();
 
       // Only update if the player has moved an appreciable distance
       if (plyrPos.distanceSquared(participant.lastKnownPosition) > distThresholdCheckProgress) {
-        participant.lastKnownRaceProgress = this.raceCurve.findClosestPointCurveProgress(plyrPos);
-        participant.lastKnownRaceTime = this.matchTime;
+        // Warm start from the previous progress so the player does not jump to another part of the track
+        participant.lastKnownRaceProgress = this.getTrackProgress(plyrPos, participant.lastKnownRaceProgress);
+        participant.lastKnownRaceTime = this.getMatchTime();
         participant.lastKnownPosition = plyrPos;
       }
+      this.updateRecentSpeed(participant);
     });
   }
 
   /**
-   * Handles the end of the match, updating the UI with the final standings and resetting the race.
+   * Samples the speed of a participant along the race curve, smoothing it so the gap estimates do not jump with every update.
+   * @param rp The race participant.
    */
-  private handleOnMatchEnd() {
-    let rollCall = this.getWinnerRollCallString(Array.from(this.raceWinners.keys()));
-    const raceParticipants = Array.from(this.raceParticipants.values());
+  private updateRecentSpeed(rp: RaceParticipant) {
+    const matchTime = this.getMatchTime();
+    const elapsed = matchTime - rp.speedSampleTime;
+    if (elapsed <= 0) { return; }
 
-    // Mark players who did not finish the race
-    for(let rp of raceParticipants) {
-      if(!this.raceWinners.has(rp)) {
-        rollCall += `Did Not Finish\t${rp.player.name.get()}\t[${msToMinutesAndSeconds(rp.lastKnownRaceTime)}]\n`;
-      }
+    // The first sample of a run only sets the starting point, relay runners wait for their leg before they start
+    const distance = this.getRaceDistance(rp);
+    if (rp.speedSampleTime > 0) {
+      const speed = Math.max(distance - rp.speedSampleDistance, 0) / elapsed;
+      rp.recentSpeed += (speed - rp.recentSpeed) * this.speedSmoothing;
+    }
+    rp.speedSampleDistance = distance;
+    rp.speedSampleTime = matchTime;
+  }
+
+  /**
+   * Returns the distance a participant has covered along the race curve on their own run, counting completed laps.
+   * @param rp The race participant.
+   */
+  private getRaceDistance(rp: RaceParticipant): number {
+    return (rp.currentLap - 1 + rp.lastKnownRaceProgress) * this.raceCurve.length;
+  }
+
+  /**
+   * Estimates how many seconds a racer is behind another one: the time the racer needs to cover the distance between them at
+   * their recent speed, plus the time since the other one finished if they have.
+   * @param standing Where the racer stands.
+   * @param ahead Where the racer ahead stands.
+   * @param totalDistance Distance of the whole race.
+   * @returns The time gap in seconds.
+   */
+  private estimateTimeGap(standing: RaceStanding, ahead: RaceStanding, totalDistance: number): number {
+    const speed = Math.max(standing.speed, this.minGapSpeed);
+    if (ahead.finishTime !== null) {
+      return Math.max(this.getMatchTime() - ahead.finishTime, 0) + Math.max(totalDistance - standing.distance, 0) / speed;
     }
+    return Math.max(ahead.distance - standing.distance, 0) / speed;
+  }
 
-    this.handleUpdateRaceUI(rollCall);
+  /**
+   * Estimates the time gaps of every racer to the racer ahead and to the leader, -1 for the leader.
+   * @param standings Where every racer stands, in order of position.
+   * @param totalDistance Distance of the whole race.
+   * @returns The gaps in the order of the standings.
+   */
+  private estimateTimeGaps(standings: RaceStanding[], totalDistance: number): { gapToNext: number, gapToLeader: number }[] {
+    return standings.map((standing, index) => index === 0
+      ? { gapToNext: -1, gapToLeader: -1 }
+      : {
+        gapToNext: this.estimateTimeGap(standing, standings[index - 1], totalDistance),
+        gapToLeader: this.estimateTimeGap(standing, standings[0], totalDistance),
+      });
+  }
+
+  /**
+   * Handles the end of the match, updating the scoreboards with the final standings and resetting the race.
+   * The results of an aborted match are not broadcast.
+   */
+  private handleOnMatchEnd() {
+    if (this.matchAborted) {
+      this.handleUpdateScoreboard("Match Aborted", []);
+      this.reset();
+      return;
+    }
+
+    // Rank the finishers, then the racers still on the track, then the eliminated with the last one knocked out first
+    const rows = this.isRelayRace()
+      ? this.getRelayScoreboardRows(this.getSortedRelayTeams())
+      : this.getScoreboardRows(this.getSortedParticipants());
+    this.handleUpdateScoreboard(this.resultsTitle, rows.concat(this.getDisqualifiedScoreboardRows()));
+    this.sendLocalBroadcastEvent(Events.onRaceResults, { results: this.getRaceResults() });
     this.reset();
   }
 
@@ -204,6 +569,8 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
       const rp = this.raceParticipants.get(player.id);
       if (rp) {
         this.raceWinners.delete(rp); // Remove from winners if applicable
+        this.raceEliminated = this.raceEliminated.filter((entry) => entry !== rp); // Remove from eliminated if applicable
+        this.removeRelayRunner(player);
         this.raceParticipants.delete(player.id); // Remove from participants
       }
       console.log(`${this.constructor.name} Removed player ${player.name.get()}`);
@@ -212,6 +579,38 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
     }
   }
 
+  /**
+   * Removes a runner from their relay team, sending out the next runner if the leaving runner was on the track.
+   * @param player The player who has left the match.
+   */
+  private removeRelayRunner(player: hz.Player): void {
+    const relayTeam = this.relayTeams.get(player.id);
+    if (!relayTeam) { return; }
+
+    const activeRunner = this.getActiveRunner(relayTeam);
+    relayTeam.team.members = relayTeam.team.members.filter((member) => member.id !== player.id);
+    this.relayTeams.delete(player.id);
+
+    if (relayTeam.team.members.length === 0) {
+      this.relayFinishOrder = this.relayFinishOrder.filter((entry) => entry !== relayTeam);
+    } else if (relayTeam.finishTime === null && this.getActiveRunner(relayTeam) !== activeRunner) {
+      this.startRelayLeg(relayTeam, this.getMatchTime());
+    }
+  }
+
+  /**
+   * Handles a player being knocked out of the race, they no longer count towards the race positions.
+   * @param player The player who has been eliminated.
+   */
+  private handleOnPlayerEliminated(player: hz.Player): void {
+    const rp = this.raceParticipants.get(player.id);
+    if (!rp || !this.isStillRacing(rp)) { return; }
+
+    this.raceEliminated.push(rp);
+    this.sendNetworkEvent(player, Events.onStopRacePosUpdates, {});
+    console.log(`${this.constructor.name} Eliminated player ${player.name.get()}`);
+  }
+
   /**
    * Initializes the race curve using a list of checkpoint entities.
    * @param chckObjs The list of entities representing the checkpoints.
@@ -226,12 +625,360 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
   }
 
   /**
-   * Updates the start and finish line UI with the provided text.
-   * @param text The text to set on the start and finish line UI.
+   * Registers a checkpoint order index, keeping the checkpoint order sorted.
+   * @param checkpointIndex The order index of the checkpoint.
+   */
+  private registerCheckpoint(checkpointIndex: number) {
+    if (this.checkpointOrder.includes(checkpointIndex)) {
+      console.warn(`${this.constructor.name} Checkpoint index ${checkpointIndex} registered more than once`);
+      return;
+    }
+    this.checkpointOrder.push(checkpointIndex);
+    this.checkpointOrder.sort((a, b) => a - b);
+  }
+
+  /**
+   * Returns the order index of the next checkpoint the participant has to pass, or null if all have been passed.
+   * @param rp The race participant.
+   */
+  private getNextCheckpointIndex(rp: RaceParticipant): number | null {
+    const next = this.checkpointOrder.find((index) => index > rp.lastCheckpointIndex);
+    return next === undefined ? null : next;
+  }
+
+  /**
+   * Handles a player entering a checkpoint, only accepting it if it is the next one in order.
+   * @param player The player that entered the checkpoint.
+   * @param checkpointIndex The order index of the checkpoint.
+   */
+  private handleOnPlayerEnteredCheckpoint(player: hz.Player, checkpointIndex: number) {
+    const rp = this.raceParticipants.get(player.id);
+    if (!rp || !this.isStillRacing(rp)) { return; }
+
+    const nextCheckpointIndex = this.getNextCheckpointIndex(rp);
+    if (nextCheckpointIndex === null || checkpointIndex < nextCheckpointIndex) {
+      return; // Already passed this checkpoint
+    }
+    if (checkpointIndex > nextCheckpointIndex) {
+      this.world.ui.showPopupForPlayer(player, `Missed checkpoint ${this.checkpointOrder.indexOf(nextCheckpointIndex) + 1}!`, 2);
+      return;
+    }
+
+    rp.lastCheckpointIndex = checkpointIndex;
+    const passedCount = this.checkpointOrder.indexOf(checkpointIndex) + 1;
+    const matchTime = this.getMatchTime();
+    const totalCheckpoints = this.checkpointOrder.length;
+    this.sendLocalBroadcastEvent(Events.onPlayerPassedCheckpoint, {
+      player,
+      checkpointNumber: passedCount,
+      totalCheckpoints,
+      matchTime
+    });
+    this.sendNetworkEvent(player, Events.onCheckpointPassed, {
+      checkpointNumber: passedCount,
+      totalCheckpoints,
+      matchTime
+    });
+  }
+
+  /**
+   * Handles a player entering the goal, only counting the lap or finish once every checkpoint has been passed.
+   * @param player The player that entered the goal.
+   */
+  private handleOnPlayerEnteredGoal(player: hz.Player) {
+    const rp = this.raceParticipants.get(player.id);
+    if (!rp || !this.isStillRacing(rp) || !this.canCompleteLap(rp)) { return; }
+
+    const relayTeam = this.relayTeams.get(player.id);
+    if (rp.currentLap < this.getLapCount()) {
+      this.playerCompletedLap(rp);
+    } else if (relayTeam && relayTeam.currentLeg < this.relayLegCount) {
+      this.world.ui.showPopupForPlayer(player, `Hand off to your next runner!`, 2);
+    } else if (relayTeam) {
+      this.relayTeamFinishedRace(relayTeam);
+    } else {
+      this.playerFinishedRace(player);
+    }
+  }
+
+  /**
+   * Checks whether the participant may complete their lap, which needs most of the lap done and every checkpoint passed.
+   * @param rp The race participant.
+   * @returns True if the lap can be completed.
+   */
+  private canCompleteLap(rp: RaceParticipant): boolean {
+    // On a circuit the goal is also the start line, ignore crossing it before most of the lap is done
+    if (this.getLapCount() > 1 && rp.lastKnownRaceProgress < 0.5) { return false; }
+
+    const nextCheckpointIndex = this.getNextCheckpointIndex(rp);
+    if (nextCheckpointIndex !== null) {
+      console.log(`${this.constructor.name} Rejected finish for ${rp.player.name.get()}, missed checkpoint ${nextCheckpointIndex}`);
+      this.world.ui.showPopupForPlayer(rp.player, `Missed checkpoint ${this.checkpointOrder.indexOf(nextCheckpointIndex) + 1}!`, 2);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Initializes the progress of the relay teams of the match, the first runner of each team starts the first leg
+   * and the other runners wait for their leg off the track.
+   * @param teams The relay teams of the match, empty if the race is not a relay.
+   */
+  private initRelayTeams(teams: RelayTeam[]) {
+    this.relayLegCount = Math.max(0, ...teams.map((team) => team.members.length));
+    teams.forEach((team) => {
+      const relayTeam: RelayTeamProgress = {
+        team: { teamNumber: team.teamNumber, members: team.members.slice() },
+        currentLeg: 1,
+        legStartTime: 0,
+        legTimes: [],
+        finishTime: null
+      };
+      relayTeam.team.members.forEach((member) => {
+        this.relayTeams.set(member.id, relayTeam);
+        if (member !== this.getActiveRunner(relayTeam)) {
+          this.props.relayWaitingSpawnPoint?.as(hz.SpawnPointGizmo)?.teleportPlayer(member);
+        }
+      });
+    });
+  }
+
+  /**
+   * Returns the runner of the relay team's current leg. Teams with fewer runners than legs send their runners out again.
+   * @param relayTeam The relay team.
+   */
+  private getActiveRunner(relayTeam: RelayTeamProgress): hz.Player | undefined {
+    const members = relayTeam.team.members;
+    return members[(relayTeam.currentLeg - 1) % members.length];
+  }
+
+  /**
+   * Returns each relay team once, in order of team number.
    */
-  private handleUpdateRaceUI(text: string): void {
-    this.startLineRaceUI!.text.set(text);
-    this.finishLineRaceUI!.text.set(text);
+  private getRelayTeamList(): RelayTeamProgress[] {
+    return Array.from(new Set(this.relayTeams.values())).sort((a, b) => a.team.teamNumber - b.team.teamNumber);
+  }
+
+  /**
+   * Sorts the relay teams by position: finished teams in order of their finish, then by their leg, lap and progress along the race curve.
+   * @returns The relay teams in order of position.
+   */
+  private getSortedRelayTeams(): RelayTeamProgress[] {
+    const getRunner = (relayTeam: RelayTeamProgress) => {
+      const runner = this.getActiveRunner(relayTeam);
+      return runner ? this.raceParticipants.get(runner.id) : undefined;
+    };
+    const stillRacing = this.getRelayTeamList()
+      .filter((relayTeam) => relayTeam.finishTime === null)
+      .sort((a, b) => {
+        const runnerA = getRunner(a);
+        const runnerB = getRunner(b);
+        return (b.currentLeg - a.currentLeg)
+          || ((runnerB?.currentLap ?? 0) - (runnerA?.currentLap ?? 0))
+          || ((runnerB?.lastKnownRaceProgress ?? 0) - (runnerA?.lastKnownRaceProgress ?? 0));
+      });
+    return this.relayFinishOrder.concat(stillRacing);
+  }
+
+  /**
+   * Gets the results of a relay race, every runner takes the position and finish time of their team.
+   * @returns The result of every relay runner in order of their team's position.
+   */
+  private getRelayTeamResults(): RaceResult[] {
+    const results: RaceResult[] = [];
+    this.getSortedRelayTeams().forEach((relayTeam, index) => {
+      relayTeam.team.members.forEach((member) => {
+        results.push({ player: member, position: index + 1, finishTime: relayTeam.finishTime });
+      });
+    });
+    return results;
+  }
+
+  /**
+   * Notifies every runner of a relay team still racing of their team's position, leg and lap.
+   */
+  private updateRelayTeamPositions() {
+    const sortedTeams = this.getSortedRelayTeams();
+    const legDistance = this.getLapCount() * this.raceCurve.length;
+    const gaps = this.estimateTimeGaps(sortedTeams.map((relayTeam) => {
+      const runner = this.getActiveRunner(relayTeam);
+      const rp = runner ? this.raceParticipants.get(runner.id) : undefined;
+      return {
+        distance: (relayTeam.currentLeg - 1) * legDistance + (rp ? this.getRaceDistance(rp) : 0),
+        speed: rp?.recentSpeed ?? 0,
+        finishTime: relayTeam.finishTime,
+      };
+    }), this.relayLegCount * legDistance);
+
+    sortedTeams.forEach((relayTeam, index) => {
+      if (relayTeam.finishTime !== null) { return; }
+
+      const runner = this.getActiveRunner(relayTeam);
+      const rp = runner ? this.raceParticipants.get(runner.id) : undefined;
+      relayTeam.team.members.forEach((member) => {
+        this.sendNetworkEvent(member,
+          Events.onRacePosUpdate, {
+            playerPos: (index + 1), // Position of the team in the race
+            totalRacers: sortedTeams.length,
+            matchTime: this.getMatchTime(),
+            currentLap: rp?.currentLap ?? 1,
+            totalLaps: this.getLapCount(),
+            currentLeg: relayTeam.currentLeg,
+            totalLegs: this.relayLegCount,
+            gapToNext: gaps[index].gapToNext,
+            gapToLeader: gaps[index].gapToLeader
+        });
+      });
+    });
+  }
+
+  /**
+   * Handles a relay runner entering the hand-off zone, sending the next runner of their team out once their leg is complete.
+   * @param player The player that entered the hand-off zone.
+   */
+  private handleOnPlayerEnteredRelayHandoff(player: hz.Player) {
+    const relayTeam = this.relayTeams.get(player.id);
+    const rp = this.raceParticipants.get(player.id);
+    if (!relayTeam || !rp || !this.isStillRacing(rp)) { return; }
+
+    // The last runner finishes at the goal, and runners only hand off on their last lap
+    if (relayTeam.currentLeg >= this.relayLegCount || rp.currentLap < this.getLapCount()) { return; }
+
+    // The next runner takes the baton by the hand-off zone, ignore them crossing it before most of their leg is done
+    if (rp.lastKnownRaceProgress < 0.5 || !this.canCompleteLap(rp)) { return; }
+
+    const matchTime = this.getMatchTime();
+    rp.lapTimes.push(matchTime - rp.lapStartTime);
+    rp.lastKnownRaceProgress = 1;
+    rp.lastKnownRaceTime = matchTime;
+    this.addPathSample(rp, matchTime);
+
+    relayTeam.legTimes.push(matchTime - relayTeam.legStartTime);
+    relayTeam.currentLeg++;
+    this.world.ui.showPopupForPlayer(player, `Handed off!`, 2);
+    this.props.relayWaitingSpawnPoint?.as(hz.SpawnPointGizmo)?.teleportPlayer(player); // Off the track until their next leg, if any
+    this.startRelayLeg(relayTeam, matchTime);
+  }
+
+  /**
+   * Starts the current leg of a relay team, sending its runner out from the hand-off spawn point.
+   * @param relayTeam The relay team.
+   * @param matchTime The race clock time at which the leg starts.
+   */
+  private startRelayLeg(relayTeam: RelayTeamProgress, matchTime: number) {
+    relayTeam.legStartTime = matchTime;
+    const runner = this.getActiveRunner(relayTeam);
+    const rp = runner ? this.raceParticipants.get(runner.id) : undefined;
+    if (!rp) { return; }
+
+    rp.lastKnownRaceTime = matchTime;
+    rp.lastKnownRaceProgress = 0;
+    rp.lastKnownPosition = hz.Vec3.zero;
+    rp.lastCheckpointIndex = -1;
+    rp.currentLap = 1;
+    rp.lapStartTime = matchTime;
+    rp.lapTimes = [];
+    this.props.relayHandoffSpawnPoint?.as(hz.SpawnPointGizmo)?.teleportPlayer(rp.player);
+    this.world.ui.showPopupForPlayer(rp.player, `Leg ${relayTeam.currentLeg}/${this.relayLegCount} - Go!`, 2);
+  }
+
+  /**
+   * Handles a relay team finishing the race, stamping the team time for every runner of the team.
+   * @param relayTeam The relay team that has finished the race.
+   */
+  private relayTeamFinishedRace(relayTeam: RelayTeamProgress) {
+    const clockTime = this.getMatchTime();
+    const runner = this.getActiveRunner(relayTeam);
+    const rp = runner ? this.raceParticipants.get(runner.id) : undefined;
+    if (rp) {
+      rp.lapTimes.push(clockTime - rp.lapStartTime);
+      rp.lastKnownRaceProgress = 1;
+      this.addPathSample(rp, clockTime);
+    }
+
+    // The false start penalties of the team's runners are added to the team time
+    const timePenalty = relayTeam.team.members.reduce((total, member) => total + this.getTimePenalty(member), 0);
+    const matchTime = clockTime + timePenalty;
+    relayTeam.finishTime = matchTime;
+    relayTeam.legTimes.push(clockTime - relayTeam.legStartTime);
+    this.relayFinishOrder.push(relayTeam);
+    this.relayFinishOrder.sort((a, b) => (a.finishTime ?? 0) - (b.finishTime ?? 0));
+
+    // Every runner of the team is credited with the team time
+    relayTeam.team.members.forEach((member) => {
+      const memberRp = this.raceParticipants.get(member.id);
+      if (memberRp) {
+        memberRp.finishTime = matchTime;
+        memberRp.lastKnownRaceTime = matchTime;
+      }
+      this.sendNetworkEvent(member, Events.onStopRacePosUpdates, {});
+    });
+
+    this.handleUpdateScoreboard(this.finishersTitle, this.getRelayScoreboardRows(this.relayFinishOrder));
+
+    // Every runner reaches the goal with the team time, the GameManager counts the team as one finisher
+    relayTeam.team.members.forEach((member) => {
+      this.sendLocalBroadcastEvent(Events.onPlayerReachedGoal, { player: member, matchTime });
+    });
+  }
+
+  /**
+   * Builds the scoreboard rows of the relay teams, with their team time or the leg they reached.
+   * @param relayTeams Relay teams in order of position.
+   * @returns A row for each team, in the same order.
+   */
+  private getRelayScoreboardRows(relayTeams: RelayTeamProgress[]): ScoreboardRow[] {
+    const winnerTime = relayTeams[0]?.finishTime ?? null;
+    return relayTeams.map((relayTeam, index) => {
+      const runners = relayTeam.team.members.map((member) => member.name.get()).join(", ");
+      const row: ScoreboardRow = {
+        rank: index + 1,
+        name: `Team ${relayTeam.team.teamNumber} (${runners})`,
+        playerIDs: relayTeam.team.members.map((member) => member.id),
+        time: relayTeam.finishTime,
+        gap: null,
+        status: ScoreboardStatus.DidNotFinish,
+        note: `Leg ${relayTeam.currentLeg}/${this.relayLegCount}`,
+      };
+      if (relayTeam.finishTime !== null) {
+        const timePenalty = relayTeam.team.members.reduce((total, member) => total + this.getTimePenalty(member), 0);
+        row.gap = index > 0 && winnerTime !== null ? relayTeam.finishTime - winnerTime : null;
+        row.status = ScoreboardStatus.Finished;
+        row.note = this.getPenaltyNote(timePenalty);
+      }
+      return row;
+    });
+  }
+
+  /**
+   * Records the lap time of a participant and moves them on to their next lap.
+   * @param rp The race participant that completed a lap.
+   */
+  private playerCompletedLap(rp: RaceParticipant) {
+    const matchTime = this.getMatchTime();
+    rp.lapTimes.push(matchTime - rp.lapStartTime);
+    rp.lapStartTime = matchTime;
+    rp.currentLap++;
+    rp.lastCheckpointIndex = -1;
+    rp.lastKnownRaceProgress = 0;
+
+    this.world.ui.showPopupForPlayer(rp.player, `Lap ${rp.currentLap}/${this.getLapCount()}`, 2);
+  }
+
+  /**
+   * Returns the number of laps in the race, at least 1.
+   */
+  public getLapCount(): number {
+    return Math.max(1, Math.floor(this.props.lapCount));
+  }
+
+  /**
+   * Updates the start and finish line scoreboards with the provided standings.
+   * @param title The title shown above the standings, or an empty string to clear the scoreboards.
+   * @param rows The rows of the standings, in order of position.
+   */
+  private handleUpdateScoreboard(title: string, rows: ScoreboardRow[]): void {
+    this.sendLocalBroadcastEvent(Events.onScoreboardUpdate, { title, rows });
   }
 
   /**
@@ -242,37 +989,96 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
     if (!player) { return; }
 
     const rp = this.raceParticipants.get(player.id);
-    if (rp! && !this.raceWinners.has(rp)) {
-      this.sendNetworkEvent(player, Events.onStopRacePosUpdates, {});
+    if (rp && this.stampFinish(rp)) {
+      this.sendLocalBroadcastEvent(Events.onPlayerReachedGoal, { player, matchTime: rp.finishTime! });
+    }
+  }
+
+  /**
+   * Ranks the last racer left in an elimination race as a finisher, so they win the race.
+   * They never reached the goal, so no onPlayerReachedGoal is sent and their time does not count as a run of the track.
+   * @param player The last racer left.
+   */
+  public playerSurvivedRace(player: hz.Player) {
+    const rp = this.raceParticipants.get(player.id);
+    if (rp) {
+      this.stampFinish(rp);
+    }
+  }
 
-      this.raceWinners.add(rp);
+  /**
+   * Adds the participant to the winners with their finish time stamped from the race clock.
+   * @param rp The race participant.
+   * @returns True if the participant had not finished yet.
+   */
+  private stampFinish(rp: RaceParticipant): boolean {
+    if (this.raceWinners.has(rp)) { return false; }
 
-      rp.lastKnownRaceProgress = 1; // Mark player as having completed the race
-      rp.lastKnownRaceTime = this.matchTime;
+    this.sendNetworkEvent(rp.player, Events.onStopRacePosUpdates, {});
 
-      this.handleUpdateRaceUI(
-        this.getWinnerRollCallString(Array.from(this.raceWinners.keys()))
-      );
-    }
+    this.raceWinners.add(rp);
+
+    const clockTime = this.getMatchTime();
+    rp.lastKnownRaceProgress = 1; // Mark player as having completed the race
+    rp.finishTime = clockTime + this.getTimePenalty(rp.player); // Stamp the exact finish time from the race clock, plus any false start penalty
+    rp.lastKnownRaceTime = rp.finishTime;
+    rp.lapTimes.push(clockTime - rp.lapStartTime);
+    this.addPathSample(rp, clockTime); // Close the path exactly at the finish
+
+    this.handleUpdateScoreboard(this.finishersTitle, this.getScoreboardRows(this.getFinishers()));
+    return true;
   }
 
   /**
-   * Generates a string of the race winners in order of their finish.
-   * @param winningPlayers Array of race participants who finished.
-   * @returns The formatted roll call string.
+   * Builds the scoreboard rows of the racers, with their finish time or the time of their last progress.
+   * @param participants Race participants in order of position.
+   * @returns A row for each participant, in the same order.
    */
-  private getWinnerRollCallString(winningPlayers: Array<RaceParticipant>) {
-    let rollCall = this.defaultRaceUIText;
-    const winString = ["1st: ", "2nd: ", "3rd: ", "4th: ", "5th: ", "6th: ", "7th: ", "8th: "];
+  private getScoreboardRows(participants: RaceParticipant[]): ScoreboardRow[] {
+    const winnerTime = participants[0]?.finishTime ?? null;
+    return participants.map((rp, index) => {
+      const finished = this.raceWinners.has(rp);
+      return {
+        rank: index + 1,
+        name: rp.player.name.get(),
+        playerIDs: [rp.player.id],
+        time: rp.finishTime ?? rp.lastKnownRaceTime,
+        gap: finished && index > 0 && winnerTime !== null ? rp.finishTime! - winnerTime : null,
+        status: finished ? ScoreboardStatus.Finished
+          : this.raceEliminated.includes(rp) ? ScoreboardStatus.Eliminated : ScoreboardStatus.DidNotFinish,
+        note: finished ? this.getPenaltyNote(this.getTimePenalty(rp.player)) : "",
+      };
+    });
+  }
 
-    // Limit number of winners displayed to the size of the winString array
-    const maxNumOfWinners = Math.min(winString.length, winningPlayers.length);
-    for (let i = 0; i < maxNumOfWinners; i++) {
-      const rp = winningPlayers[i];
-      rollCall += `${winString[i]}\t${rp.player.name.get()}\t[${msToMinutesAndSeconds(rp.lastKnownRaceTime)}]\n`;
-    }
+  /**
+   * Builds the scoreboard rows of the racers disqualified for a false start.
+   * @returns A row for each disqualified racer, without a rank.
+   */
+  private getDisqualifiedScoreboardRows(): ScoreboardRow[] {
+    const rows: ScoreboardRow[] = [];
+    this.falseStarts.forEach((falseStart) => {
+      if (falseStart.penalty === FalseStartPenalty.Disqualify) {
+        rows.push({
+          rank: 0,
+          name: falseStart.player.name.get(),
+          playerIDs: [falseStart.player.id],
+          time: null,
+          gap: null,
+          status: ScoreboardStatus.Disqualified,
+          note: "False Start",
+        });
+      }
+    });
+    return rows;
+  }
 
-    return rollCall;
+  /**
+   * Returns the scoreboard note for a false start time penalty, empty if there is none.
+   * @param timePenalty The time penalty in seconds.
+   */
+  private getPenaltyNote(timePenalty: number): string {
+    return timePenalty > 0 ? `+${timePenalty}s false start` : "";
   }
 
   /**
@@ -282,16 +1088,28 @@ export class RaceManager extends hz.Component<typeof RaceManager> {
     console.warn("RACE RESET");
 
     this.async.clearInterval(this.raceUpdateIntervalID);
+    this.async.clearInterval(this.pathSampleIntervalID);
 
     this.raceParticipants.forEach((data) => { 
       this.sendNetworkEvent(data.player, Events.onStopRacePosUpdates, {}) 
     });
+    this.raceSpectators.forEach((spectator) => {
+      this.sendNetworkEvent(spectator, Events.onStopRacePosUpdates, {});
+    });
 
     // Reset race state
     this.raceUpdateIntervalID = 0;
+    this.pathSampleIntervalID = 0;
     this.raceParticipants.clear();
     this.raceWinners.clear();
-    this.matchTime = 0;
+    this.raceEliminated = [];
+    this.relayTeams.clear();
+    this.relayFinishOrder = [];
+    this.relayLegCount = 0;
+    this.raceSpectators.clear();
+    this.falseStarts.clear();
+    this.raceClock.reset();
+    this.matchAborted = false;
   }
 
   /**
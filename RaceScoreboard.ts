@@ -0,0 +1,157 @@
+/**
+ * Race scoreboard for the start and finish lines.
+ * Shows the standings sent by the RaceManager as rank, name, time, gap and status columns, a page at a time for large lobbies.
+ * Every player pages through the standings on their own, and their own row is highlighted.
+ */
+import * as hz from 'horizon/core';
+import { Binding, DynamicList, Pressable, Text, UIComponent, UINode, View } from 'horizon/ui';
+import { Events } from "Events";
+import { formatScoreboardEntry, getScoreboardOwnPage, getScoreboardPageCount, ScoreboardEntry, ScoreboardRow } from 'GameUtils';
+
+export class RaceScoreboard extends UIComponent<typeof RaceScoreboard> {
+  static propsDefinition = {
+    rowsPerPage: { type: hz.PropTypes.Number, default: 8 }, // Number of rows shown on a page
+  };
+
+  protected readonly panelWidth = 800; // Width of the panel in pixels
+  protected readonly panelHeight = 560; // Height of the panel in pixels
+
+  private readonly highlightColor = '#3a5fcd'; // Background color of the viewing player's row
+
+  private title = ''; // Title of the standings shown
+  private rows: ScoreboardRow[] = []; // Standings shown, in order of position
+  private pages = new Map<number, number>(); // Maps player IDs to the page they are viewing, starting at 0
+
+  private titleText = new Binding<string>(''); // Title shown above the standings
+  private entries = new Binding<ScoreboardEntry[]>([]); // Rows of the page each player is viewing
+  private pageText = new Binding<string>(''); // Page each player is viewing
+  private panelDisplay = new Binding<'none' | 'flex'>('none'); // Whether the scoreboard is shown
+  private pagerDisplay = new Binding<'none' | 'flex'>('none'); // Whether the page buttons are shown
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    this.connectLocalBroadcastEvent(Events.onScoreboardUpdate, (data) => {
+      this.updateScoreboard(data.title, data.rows);
+    });
+
+    // Show the standings to players entering the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      this.pages.set(player.id, this.getOwnPage(player));
+      this.updatePage(player);
+    });
+
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.pages.delete(player.id);
+    });
+  }
+
+  // Build the panel with the title, the column headers, the rows and the page buttons
+  initializeUI(): UINode {
+    return View({
+      children: [
+        Text({ text: this.titleText, style: { fontSize: 32, color: 'white', fontWeight: 'bold', marginBottom: 8 } }),
+        this.row({ rank: '#', name: 'Name', time: 'Time', gap: 'Gap', status: 'Status', highlighted: false }, '#aaaaaa'),
+        DynamicList({
+          data: this.entries,
+          renderItem: (entry: ScoreboardEntry) => this.row(entry, 'white'),
+          style: { flexGrow: 1 },
+        }),
+        View({
+          children: [
+            this.button('<', (player) => this.changePage(player, -1)),
+            Text({ text: this.pageText, style: { fontSize: 20, color: 'white', width: 160, textAlign: 'center' } }),
+            this.button('>', (player) => this.changePage(player, 1)),
+          ],
+          style: { display: this.pagerDisplay, flexDirection: 'row', alignItems: 'center', justifyContent: 'center' },
+        }),
+      ],
+      style: { display: this.panelDisplay, backgroundColor: '#202020e0', borderRadius: 12, padding: 16, width: '100%', height: '100%' },
+    });
+  }
+
+  // Create a row of the scoreboard, long names are cut to fit their column
+  private row(entry: ScoreboardEntry, color: string): UINode {
+    const textStyle = { fontSize: 22, color };
+    return View({
+      children: [
+        Text({ text: entry.rank, style: { ...textStyle, width: 50 } }),
+        Text({ text: entry.name, numberOfLines: 1, style: { ...textStyle, flexGrow: 1, flexShrink: 1 } }),
+        Text({ text: entry.time, style: { ...textStyle, width: 150 } }),
+        Text({ text: entry.gap, style: { ...textStyle, width: 100 } }),
+        Text({ text: entry.status, numberOfLines: 1, style: { ...textStyle, width: 200 } }),
+      ],
+      style: {
+        flexDirection: 'row',
+        padding: 4,
+        borderRadius: 6,
+        backgroundColor: entry.highlighted ? this.highlightColor : 'transparent',
+      },
+    });
+  }
+
+  // Create a page button
+  private button(label: string, onClick: (player: hz.Player) => void): UINode {
+    return Pressable({
+      children: Text({ text: label, style: { fontSize: 20, color: 'white', textAlign: 'center' } }),
+      onClick,
+      style: { backgroundColor: '#3a5fcd', borderRadius: 8, padding: 8, width: 48 },
+    });
+  }
+
+  // Show new standings, opening them for every player on the page with their own row
+  private updateScoreboard(title: string, rows: ScoreboardRow[]) {
+    const newStandings = title !== this.title;
+    this.title = title;
+    this.rows = rows;
+
+    this.titleText.set(title);
+    this.panelDisplay.set(title !== '' ? 'flex' : 'none');
+    this.pagerDisplay.set(this.getPageCount() > 1 ? 'flex' : 'none');
+
+    this.world.getPlayers().forEach((player) => {
+      if (newStandings || !this.pages.has(player.id)) {
+        this.pages.set(player.id, this.getOwnPage(player));
+      }
+      this.updatePage(player);
+    });
+  }
+
+  // Move the player to the previous or next page, wrapping around
+  private changePage(player: hz.Player, step: number) {
+    const pageCount = this.getPageCount();
+    const page = (this.pages.get(player.id) ?? 0) + step;
+    this.pages.set(player.id, (page % pageCount + pageCount) % pageCount);
+    this.updatePage(player);
+  }
+
+  // Show the player the rows of the page they are viewing
+  private updatePage(player: hz.Player) {
+    const pageCount = this.getPageCount();
+    const page = Math.min(this.pages.get(player.id) ?? 0, pageCount - 1);
+    const rowsPerPage = this.getRowsPerPage();
+    const entries = this.rows
+      .slice(page * rowsPerPage, (page + 1) * rowsPerPage)
+      .map((row) => formatScoreboardEntry(row, player.id));
+
+    this.entries.set(entries, [player]);
+    this.pageText.set(`Page ${page + 1}/${pageCount}`, [player]);
+  }
+
+  // Get the page with the player's own row, or the first page if they are not in the standings
+  private getOwnPage(player: hz.Player): number {
+    return getScoreboardOwnPage(this.rows, player.id, this.getRowsPerPage());
+  }
+
+  // Get the number of pages of the standings, at least 1
+  private getPageCount(): number {
+    return getScoreboardPageCount(this.rows.length, this.getRowsPerPage());
+  }
+
+  // Get the number of rows on a page, at least 1
+  private getRowsPerPage(): number {
+    return Math.max(1, Math.floor(this.props.rowsPerPage));
+  }
+}
+
+// Register the RaceScoreboard component with the framework
+hz.Component.register(RaceScoreboard);
@@ -0,0 +1,226 @@
+/**
+ * Manages a Grand Prix series of several races run back to back.
+ * After every race it awards points per finishing position from a configurable points table, and carries the standings over to the next race.
+ * The overall standings are shown on the start and finish lines, and the leader after the last race is crowned series winner.
+ * Players who leave mid-series keep their points for a reconnect window.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { RaceResult } from 'GameUtils';
+
+// A player's standing in the current series
+type SeriesStanding = {
+  name: string,
+  player: hz.Player | null, // The player, or null while they are away from the world
+  points: number,
+  wins: number,
+  reconnectTimerID: number, // Timer ID for dropping an away player from the standings, 0 if none
+};
+
+export class SeriesManager extends hz.Component<typeof SeriesManager> {
+  static propsDefinition = {
+    startLineSeriesUI: { type: hz.PropTypes.Entity }, // Text gizmo at the start line for the series standings
+    finishLineSeriesUI: { type: hz.PropTypes.Entity }, // Text gizmo at the finish line for the series standings
+    pointsTable: { type: hz.PropTypes.String, default: '25,18,15,12,10,8,6,4,2,1' }, // Points for each finishing position, comma separated
+    racesPerSeries: { type: hz.PropTypes.Number, default: 4 }, // Number of races in a series
+    reconnectWindowMS: { type: hz.PropTypes.Number, default: 120000 }, // Time a player who left keeps their points for
+    maxStandingsShown: { type: hz.PropTypes.Number, default: 8 }, // Number of standings shown on the UI
+  };
+
+  private pointsTable: number[] = []; // Points for each finishing position, first place first
+  private standings = new Map<string, SeriesStanding>(); // Maps player names to their standing, so it survives a reconnect
+  private racesCompleted = 0; // Number of races completed in the current series
+  private seriesCompleted = false; // True once the current series has crowned its winner
+
+  private startLineSeriesUI: hz.TextGizmo | null = null; // UI entity for the start line
+  private finishLineSeriesUI: hz.TextGizmo | null = null; // UI entity for the finish line
+
+  private static s_instance: SeriesManager;
+  public static getInstance(): SeriesManager {
+    return SeriesManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (SeriesManager.s_instance === undefined) {
+      SeriesManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize the points table and event listeners
+  preStart() {
+    this.startLineSeriesUI = this.props.startLineSeriesUI?.as(hz.TextGizmo) ?? null;
+    this.finishLineSeriesUI = this.props.finishLineSeriesUI?.as(hz.TextGizmo) ?? null;
+    this.pointsTable = this.parsePointsTable(this.props.pointsTable);
+
+    // Award points once a race is over
+    this.connectLocalBroadcastEvent(Events.onRaceResults, (data) => {
+      this.handleOnRaceResults(data.results);
+    });
+
+    // Give players who reconnect within the window their points back
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerEnterWorld, (player: hz.Player) => {
+      this.handleOnPlayerEnterWorld(player);
+    });
+
+    // Start the reconnect window of players who leave mid-series
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.handleOnPlayerExitWorld(player);
+    });
+
+    this.connectNetworkBroadcastEvent(Events.onResetWorld, () => { this.reset(); });
+
+    this.reset();
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  /**
+   * Gets the series points of a player.
+   * @param player The player whose points are requested.
+   * @returns The player's points in the current series, or 0 if they have none.
+   */
+  public getPoints(player: hz.Player): number {
+    return this.standings.get(player.name.get())?.points ?? 0;
+  }
+
+  // Parse the comma separated points table, skipping invalid entries
+  private parsePointsTable(pointsTable: string): number[] {
+    const points: number[] = [];
+    pointsTable.split(',').forEach((entry) => {
+      const value = Number(entry.trim());
+      if (entry.trim() === '' || isNaN(value)) {
+        console.error(`${this.constructor.name} Invalid points table entry "${entry}"`);
+        return;
+      }
+      points.push(value);
+    });
+    return points;
+  }
+
+  // Award the points of a race and crown the series winner after the last race
+  private handleOnRaceResults(results: RaceResult[]) {
+    if (this.seriesCompleted) {
+      this.startNewSeries();
+    }
+
+    results.forEach((result) => {
+      const standing = this.getOrAddStanding(result.player);
+      if (result.finishTime === null) {
+        return; // Racers who did not finish score no points
+      }
+      standing.points += this.pointsTable[result.position - 1] ?? 0;
+      if (result.position === 1) {
+        standing.wins++;
+      }
+    });
+    this.racesCompleted++;
+
+    const racesPerSeries = this.getRacesPerSeries();
+    if (this.racesCompleted >= racesPerSeries) {
+      this.crownSeriesWinner();
+    } else {
+      this.updateSeriesUI(`Grand Prix - After Race ${this.racesCompleted}/${racesPerSeries}\n`);
+    }
+  }
+
+  // Crown the series leader as the winner and show the final standings
+  private crownSeriesWinner() {
+    this.seriesCompleted = true;
+    const winner = this.getSortedStandings()[0];
+    if (!winner) {
+      this.updateSeriesUI(`Grand Prix Over\n`);
+      return;
+    }
+
+    console.log(`${this.constructor.name} ${winner.name} won the series with ${winner.points} points`);
+    this.world.ui.showPopupForEveryone(`${winner.name} wins the Grand Prix!`, 5);
+    this.updateSeriesUI(`Grand Prix Winner: ${winner.name}\n`);
+  }
+
+  // Get the player's standing, adding them with no points if they are new to the series
+  private getOrAddStanding(player: hz.Player): SeriesStanding {
+    const name = player.name.get();
+    let standing = this.standings.get(name);
+    if (!standing) {
+      standing = { name, player, points: 0, wins: 0, reconnectTimerID: 0 };
+      this.standings.set(name, standing);
+    }
+    return standing;
+  }
+
+  // Restore a player who reconnected within the window
+  private handleOnPlayerEnterWorld(player: hz.Player) {
+    const standing = this.standings.get(player.name.get());
+    if (standing && standing.player === null) {
+      this.async.clearTimeout(standing.reconnectTimerID);
+      standing.reconnectTimerID = 0;
+      standing.player = player;
+      console.log(`${this.constructor.name} ${standing.name} reconnected with ${standing.points} points`);
+    }
+  }
+
+  // Keep the points of a player who left until the reconnect window closes
+  private handleOnPlayerExitWorld(player: hz.Player) {
+    const standing = this.standings.get(player.name.get());
+    if (!standing) {
+      return;
+    }
+
+    standing.player = null;
+    standing.reconnectTimerID = this.async.setTimeout(() => {
+      this.standings.delete(standing.name);
+      console.log(`${this.constructor.name} Dropped ${standing.name} from the series standings`);
+    }, this.props.reconnectWindowMS);
+  }
+
+  // Sort the standings by points, breaking ties with the number of wins
+  private getSortedStandings(): SeriesStanding[] {
+    return Array.from(this.standings.values()).sort((a, b) => {
+      return (b.points - a.points) || (b.wins - a.wins) || a.name.localeCompare(b.name);
+    });
+  }
+
+  // Returns the number of races in a series, at least 1
+  private getRacesPerSeries(): number {
+    return Math.max(1, Math.floor(this.props.racesPerSeries));
+  }
+
+  // Update the UI entities with the header and the overall standings
+  private updateSeriesUI(header: string) {
+    let text = header;
+    const standings = this.getSortedStandings().slice(0, this.props.maxStandingsShown);
+    standings.forEach((standing, index) => {
+      const away = standing.player === null ? ' (away)' : '';
+      text += `${index + 1}.\t${standing.name}${away}\t${standing.points} pts\n`;
+    });
+    this.startLineSeriesUI?.text.set(text);
+    this.finishLineSeriesUI?.text.set(text);
+  }
+
+  // Clear the standings and start counting races from the first one
+  private startNewSeries() {
+    this.standings.forEach((standing) => {
+      this.async.clearTimeout(standing.reconnectTimerID);
+    });
+    this.standings.clear();
+    this.racesCompleted = 0;
+    this.seriesCompleted = false;
+  }
+
+  // Reset the series and show an empty standings board
+  private reset() {
+    this.startNewSeries();
+    this.updateSeriesUI(`Grand Prix - Race 1/${this.getRacesPerSeries()}\n`);
+  }
+
+  // Dispose method to clear the reconnect timers when the component is destroyed
+  dispose() { this.startNewSeries(); }
+}
+
+// Register the SeriesManager component with the framework
+hz.Component.register(SeriesManager);
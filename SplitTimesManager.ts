@@ -0,0 +1,169 @@
+/**
+ * Tracks checkpoint split times and compares them with the racer's personal best.
+ * When a racer passes a checkpoint or reaches the goal, their split time and its delta to the same split of their best run
+ * on this track are sent to their HUD. A run that beats the stored best finish time replaces the stored splits once the match
+ * completes, so the runs of an aborted match are never saved.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { GameState } from 'GameUtils';
+import { RaceManager } from 'RaceManager';
+
+// The split times of a player's best run on each track, as stored in persistent storage
+type BestSplitsRecord = {
+  version: number,
+  tracks: { [trackName: string]: { finishTime: number, splits: number[] } }, // Splits are ordered by lap, then checkpoint
+};
+
+const bestSplitsVersion = 1; // Version of the stored splits format, records of other versions start over
+
+export class SplitTimesManager extends hz.Component<typeof SplitTimesManager> {
+  static propsDefinition = {
+    splitsVariableKey: { type: hz.PropTypes.String, default: 'SkylineSprint:bestSplits' }, // Persistent player variable storing the best splits
+    trackName: { type: hz.PropTypes.String, default: 'Skyline' }, // Name the splits on this track are stored under
+  };
+
+  private runSplits = new Map<number, number[]>(); // Maps player IDs to the splits of their current run
+  private bestRecords = new Map<number, BestSplitsRecord>(); // Maps player IDs to their stored best splits, loaded when first needed
+  private newBests = new Map<number, { player: hz.Player, finishTime: number, splits: number[] }>(); // Maps player IDs to the new best runs saved when the match completes
+
+  private static s_instance: SplitTimesManager;
+  public static getInstance(): SplitTimesManager {
+    return SplitTimesManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (SplitTimesManager.s_instance === undefined) {
+      SplitTimesManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    // Every race starts new runs, and the new best runs are saved once the match completes
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      if (data.toState === GameState.PlayingMatch) {
+        this.runSplits.clear();
+        this.newBests.clear();
+      } else if (data.toState === GameState.CompletedMatch) {
+        this.saveNewBests();
+      }
+    });
+
+    // The runs of an aborted match are not saved
+    this.connectLocalBroadcastEvent(Events.onMatchAborted, () => {
+      this.newBests.clear();
+    });
+
+    this.connectLocalBroadcastEvent(Events.onPlayerPassedCheckpoint, (data) => {
+      this.handleOnPlayerPassedCheckpoint(data.player, data.checkpointNumber, data.totalCheckpoints, data.matchTime);
+    });
+
+    this.connectLocalBroadcastEvent(Events.onPlayerReachedGoal, (data) => {
+      this.handleOnPlayerReachedGoal(data.player, data.matchTime);
+    });
+
+    // Forget the splits of players leaving the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.runSplits.delete(player.id);
+      this.bestRecords.delete(player.id);
+      this.newBests.delete(player.id);
+    });
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  // Get the splits of the player's best run on this track, or null if they have none
+  public getBestSplits(player: hz.Player): number[] | null {
+    return this.getBestRecord(player).tracks[this.props.trackName]?.splits.slice() ?? null;
+  }
+
+  // Record the split and send it to the player's HUD, relay legs are not personal runs
+  private handleOnPlayerPassedCheckpoint(player: hz.Player, checkpointNumber: number, totalCheckpoints: number, matchTime: number) {
+    const raceManager = RaceManager.getInstance();
+    if (raceManager.isRelayRace()) {
+      return;
+    }
+
+    const lap = raceManager.getRaceParticipant(player)?.currentLap ?? 1;
+    const splitName = raceManager.getLapCount() > 1
+      ? `Lap ${lap} CP ${checkpointNumber}/${totalCheckpoints}`
+      : `CP ${checkpointNumber}/${totalCheckpoints}`;
+    this.recordSplit(player, splitName, matchTime);
+  }
+
+  // Record the finish as the last split, and keep the run's splits to save if it beat the best finish time
+  private handleOnPlayerReachedGoal(player: hz.Player, finishTime: number) {
+    if (RaceManager.getInstance().isRelayRace()) {
+      return;
+    }
+
+    this.recordSplit(player, "Finish", finishTime);
+    const splits = this.runSplits.get(player.id)!;
+    this.runSplits.delete(player.id);
+
+    const best = this.getBestRecord(player).tracks[this.props.trackName];
+    if (best && best.finishTime <= finishTime) {
+      return;
+    }
+    this.newBests.set(player.id, { player, finishTime, splits });
+  }
+
+  // Save the splits of the new best runs of the completed match
+  private saveNewBests() {
+    this.newBests.forEach(({ player, finishTime, splits }) => {
+      const record = this.getBestRecord(player);
+      record.tracks[this.props.trackName] = { finishTime, splits };
+      try {
+        this.world.persistentStorage.setPlayerVariable(player, this.props.splitsVariableKey, record);
+        console.log(`${this.constructor.name} Saved new best splits for ${player.name.get()}: ${finishTime}`);
+      } catch (error) {
+        console.error(`Error saving best splits: ${error}`);
+      }
+    });
+    this.newBests.clear();
+  }
+
+  // Add a split to the player's run and send it with its delta to the same split of their best run
+  private recordSplit(player: hz.Player, splitName: string, splitTime: number) {
+    const splits = this.runSplits.get(player.id) ?? [];
+    this.runSplits.set(player.id, splits);
+
+    const bestSplit = this.getBestRecord(player).tracks[this.props.trackName]?.splits[splits.length];
+    splits.push(splitTime);
+    this.sendNetworkEvent(player, Events.onCheckpointSplit, {
+      splitName,
+      splitTime,
+      hasBestSplit: bestSplit !== undefined,
+      deltaTime: bestSplit !== undefined ? splitTime - bestSplit : 0,
+    });
+  }
+
+  // Get the player's stored best splits, loading them on first use and starting over if the format is unknown
+  private getBestRecord(player: hz.Player): BestSplitsRecord {
+    let record = this.bestRecords.get(player.id);
+    if (record) {
+      return record;
+    }
+
+    record = { version: bestSplitsVersion, tracks: {} };
+    try {
+      const stored = this.world.persistentStorage.getPlayerVariable<BestSplitsRecord>(player, this.props.splitsVariableKey);
+      if (stored && stored.version === bestSplitsVersion && stored.tracks) {
+        record = stored;
+      }
+    } catch (error) {
+      console.error(`Error retrieving best splits: ${error}`);
+    }
+    this.bestRecords.set(player.id, record);
+    return record;
+  }
+}
+
+// Register the SplitTimesManager component with the framework
+hz.Component.register(SplitTimesManager);
@@ -0,0 +1,218 @@
+/**
+ * Runs solo time trials outside of the GameManager match cycle.
+ * Each player on a time trial has a private race clock, passes the same checkpoints and victory trigger as a race,
+ * and submits their finish time to a separate time-trial leaderboard.
+ * The runs are tracked here only, the players stay in the lobby as far as the MatchManager is concerned.
+ */
+import * as hz from 'horizon/core';
+import { Events } from "Events";
+import { GameState, msToMinutesAndSeconds, PlayerGameStatus, RaceClock } from 'GameUtils';
+import { MatchManager } from 'MatchManager';
+import { RaceManager } from 'RaceManager';
+
+// Defines the structure for a time trial run, including the player reference, their private clock, last checkpoint passed and laps.
+type TimeTrialRun = {
+  player: hz.Player,
+  clock: RaceClock,
+  lastCheckpointIndex: number, // Order index of the last checkpoint passed on the current lap, or -1 if none
+  currentLap: number, // Lap the run is currently on, starting at 1
+  lastKnownProgress: number // Progress along the current lap as a fraction of the track distance, from 0 to 1
+};
+
+export class TimeTrialManager extends hz.Component<typeof TimeTrialManager> {
+  static propsDefinition = {
+    leaderboardName: { type: hz.PropTypes.String, default: 'TimeTrialLeaderboard' }, // Name of the time-trial leaderboard to update
+    timeUpdateIntervalMS: { type: hz.PropTypes.Number, default: 500 }, // Interval for syncing each player's HUD timer
+  };
+
+  private timeTrialRuns = new Map<number, TimeTrialRun>(); // Maps player IDs to their current time trial run
+  private bestTimes = new Map<number, number>(); // Maps player IDs to their best time trial finish this session
+  private timeUpdateIntervalID: number = 0; // Interval ID for syncing HUD timers
+  private lastKnownGameState = GameState.ReadyForMatch; // Time trials only run while no match is using the course
+
+  private static s_instance: TimeTrialManager;
+  public static getInstance(): TimeTrialManager {
+    return TimeTrialManager.s_instance;
+  }
+
+  constructor() {
+    super();
+    if (TimeTrialManager.s_instance === undefined) {
+      TimeTrialManager.s_instance = this;
+    } else {
+      console.error(`There are two ${this.constructor.name} in the world!`);
+      return;
+    }
+  }
+
+  // Pre-start lifecycle method to initialize event listeners
+  preStart() {
+    // Start, or restart, a run when a player enters the time trial start
+    this.connectLocalBroadcastEvent(Events.onRegisterPlayerForTimeTrial, (data) => {
+      this.handlePlayerRegisterTimeTrial(data.player);
+    });
+
+    // Drop the run when the player leaves the time trial
+    this.connectLocalBroadcastEvent(Events.onDeregisterPlayerForTimeTrial, (data) => {
+      this.endRun(data.player);
+    });
+
+    // A match is starting - end all time trials so the course is free for the race
+    this.connectLocalBroadcastEvent(Events.onGameStateChanged, (data) => {
+      this.lastKnownGameState = data.toState;
+      if (data.fromState === GameState.ReadyForMatch && data.toState === GameState.StartingMatch) {
+        this.timeTrialRuns.forEach((run) => this.endRun(run.player));
+      }
+    });
+
+    // Joining the match ends the player's time trial
+    this.connectLocalBroadcastEvent(Events.onPlayerJoinedStandby, (data) => {
+      this.endRun(data.player);
+    });
+
+    // Reuse the race checkpoints and victory trigger
+    this.connectLocalBroadcastEvent(Events.onPlayerEnteredCheckpoint, (data) => {
+      this.handleOnPlayerEnteredCheckpoint(data.player, data.checkpointIndex);
+    });
+
+    this.connectLocalBroadcastEvent(Events.onPlayerEnteredGoal, (data) => {
+      this.handleOnPlayerEnteredGoal(data.player);
+    });
+
+    // Forget the run and best time of players leaving the world
+    this.connectCodeBlockEvent(this.entity, hz.CodeBlockEvents.OnPlayerExitWorld, (player: hz.Player) => {
+      this.timeTrialRuns.delete(player.id);
+      this.bestTimes.delete(player.id);
+    });
+
+    // Keep each player's HUD timer in sync with their private clock, and track how far along the lap they are
+    this.timeUpdateIntervalID = this.async.setInterval(() => {
+      this.timeTrialRuns.forEach((run) => {
+        run.lastKnownProgress = RaceManager.getInstance().getTrackProgress(run.player.position.get(), run.lastKnownProgress);
+        this.sendNetworkEvent(run.player, Events.onTimeTrialTimeUpdate, { matchTime: run.clock.getElapsedSeconds() });
+      });
+    }, this.props.timeUpdateIntervalMS);
+  }
+
+  // Empty start method that can be overridden if needed
+  start() { }
+
+  /**
+   * Gets the player's best time trial finish this session.
+   * @param player The player whose best time is requested.
+   * @returns The best time in seconds, or null if the player has not finished a time trial.
+   */
+  public getBestTime(player: hz.Player): number | null {
+    return this.bestTimes.get(player.id) ?? null;
+  }
+
+  // Start, or restart, the player's run, only from the lobby and while no match is using the course
+  private handlePlayerRegisterTimeTrial(player: hz.Player) {
+    if (this.lastKnownGameState !== GameState.ReadyForMatch) {
+      this.world.ui.showPopupForPlayer(player, "Time trials open once the match is over", 2);
+      return;
+    }
+    if (MatchManager.getInstance().getPlayerGameStatus(player) !== PlayerGameStatus.Lobby) {
+      return; // Players who are ready for the match wait for it on the start grid
+    }
+
+    const clock = new RaceClock();
+    clock.start();
+    this.timeTrialRuns.set(player.id, { player, clock, lastCheckpointIndex: -1, currentLap: 1, lastKnownProgress: 0 });
+    this.world.ui.showPopupForPlayer(player, "Time Trial Started!", 1);
+  }
+
+  // End the player's run, if they are on one
+  private endRun(player: hz.Player) {
+    if (this.timeTrialRuns.delete(player.id)) {
+      this.sendNetworkEvent(player, Events.onStopRacePosUpdates, {});
+    }
+  }
+
+  // Get the order index of the next checkpoint the run has to pass, or null if all have been passed
+  private getNextCheckpointIndex(run: TimeTrialRun): number | null {
+    const next = RaceManager.getInstance().getCheckpointOrder().find((index) => index > run.lastCheckpointIndex);
+    return next === undefined ? null : next;
+  }
+
+  // Accept a checkpoint only if it is the next one in order
+  private handleOnPlayerEnteredCheckpoint(player: hz.Player, checkpointIndex: number) {
+    const run = this.timeTrialRuns.get(player.id);
+    if (!run) { return; }
+
+    const checkpointOrder = RaceManager.getInstance().getCheckpointOrder();
+    const nextCheckpointIndex = this.getNextCheckpointIndex(run);
+    if (nextCheckpointIndex === null || checkpointIndex < nextCheckpointIndex) {
+      return; // Already passed this checkpoint
+    }
+    if (checkpointIndex > nextCheckpointIndex) {
+      this.world.ui.showPopupForPlayer(player, `Missed checkpoint ${checkpointOrder.indexOf(nextCheckpointIndex) + 1}!`, 2);
+      return;
+    }
+
+    run.lastCheckpointIndex = checkpointIndex;
+    this.sendNetworkEvent(player, Events.onCheckpointPassed, {
+      checkpointNumber: checkpointOrder.indexOf(checkpointIndex) + 1,
+      totalCheckpoints: checkpointOrder.length,
+      matchTime: run.clock.getElapsedSeconds()
+    });
+  }
+
+  // Complete the lap once every checkpoint has been passed, and finish the run after the last lap
+  private handleOnPlayerEnteredGoal(player: hz.Player) {
+    const run = this.timeTrialRuns.get(player.id);
+    if (!run) { return; }
+
+    // On a circuit the goal is also the start line, ignore crossing it before most of the lap is done
+    const lapCount = RaceManager.getInstance().getLapCount();
+    if (lapCount > 1 && run.lastKnownProgress < 0.5) { return; }
+
+    const nextCheckpointIndex = this.getNextCheckpointIndex(run);
+    if (nextCheckpointIndex !== null) {
+      const checkpointNumber = RaceManager.getInstance().getCheckpointOrder().indexOf(nextCheckpointIndex) + 1;
+      this.world.ui.showPopupForPlayer(player, `Missed checkpoint ${checkpointNumber}!`, 2);
+      return;
+    }
+
+    if (run.currentLap < lapCount) {
+      run.currentLap++;
+      run.lastCheckpointIndex = -1;
+      run.lastKnownProgress = 0;
+      this.world.ui.showPopupForPlayer(player, `Lap ${run.currentLap}/${lapCount}`, 2);
+      return;
+    }
+
+    run.clock.stop();
+    const finishTime = run.clock.getElapsedSeconds();
+    const bestTime = this.bestTimes.get(player.id);
+    const isNewBest = bestTime === undefined || finishTime < bestTime;
+    if (isNewBest) {
+      this.bestTimes.set(player.id, finishTime);
+    }
+
+    this.world.ui.showPopupForPlayer(player, `Time Trial: ${msToMinutesAndSeconds(finishTime)}${isNewBest ? "\nNew Best!" : ""}`, 3);
+    this.submitToLeaderboard(player, finishTime);
+    this.sendLocalBroadcastEvent(Events.onPlayerFinishedTimeTrial, { player, matchTime: finishTime });
+    this.endRun(player);
+  }
+
+  // Update the time-trial leaderboard with the player's finish time
+  private submitToLeaderboard(player: hz.Player, finishTime: number) {
+    if (this.world.leaderboards) {
+      const matchTime = Math.floor(finishTime);
+      this.world.leaderboards.setScoreForPlayer(this.props.leaderboardName, player, matchTime, true);
+      console.log(`Updated time trial leaderboard with player: ${player.name.get()} and time: ${matchTime}`);
+    } else {
+      console.error("Leaderboards are not available in the world object.");
+    }
+  }
+
+  // Dispose method to clear the timer sync when the component is destroyed
+  dispose() {
+    this.async.clearInterval(this.timeUpdateIntervalID);
+    this.timeTrialRuns.clear();
+  }
+}
+
+// Register the TimeTrialManager component with the framework
+hz.Component.register(TimeTrialManager);
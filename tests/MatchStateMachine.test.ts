@@ -0,0 +1,311 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  GameState,
+  MatchCountdown,
+  MatchEndRule,
+  MatchRoster,
+  MatchStateConfig,
+  MatchStateMachine,
+  MatchTimers,
+} from '../MatchStateMachine';
+
+// Timers driven by hand, so the countdowns run without waiting
+class FakeTimers implements MatchTimers {
+  private nowMS = 0; // Current fake wall-clock time
+  private nextTimerID = 1; // ID of the next timer, 0 is never used
+  private intervals = new Map<number, { callback: () => void, intervalMS: number, nextRunMS: number }>(); // Active intervals by ID
+
+  setInterval(callback: () => void, intervalMS: number): number {
+    const timerID = this.nextTimerID++;
+    this.intervals.set(timerID, { callback, intervalMS, nextRunMS: this.nowMS + intervalMS });
+    return timerID;
+  }
+
+  clearInterval(timerID: number): void {
+    this.intervals.delete(timerID);
+  }
+
+  now(): number {
+    return this.nowMS;
+  }
+
+  // Number of intervals still running
+  activeCount(): number {
+    return this.intervals.size;
+  }
+
+  // Move the time forward, running every interval that is due in order
+  advance(timeMS: number): void {
+    const endMS = this.nowMS + timeMS;
+    for (;;) {
+      let due: { callback: () => void, intervalMS: number, nextRunMS: number } | undefined;
+      this.intervals.forEach((interval) => {
+        if (interval.nextRunMS <= endMS && (!due || interval.nextRunMS < due.nextRunMS)) {
+          due = interval;
+        }
+      });
+      if (!due) {
+        break;
+      }
+      this.nowMS = due.nextRunMS;
+      due.nextRunMS += due.intervalMS;
+      due.callback();
+    }
+    this.nowMS = endMS;
+  }
+}
+
+const defaultConfig: MatchStateConfig = {
+  timeToMatchStartMS: 3000,
+  timeToMatchEndMS: 3000,
+  timeNewMatchReadyMS: 3000,
+  raceTimeLimitMS: 0,
+  allFinishedTimeLimitMS: 60000,
+  playersNeededForMatch: 2,
+  readyPercentageToStart: 0,
+  matchEndRule: MatchEndRule.FirstFinisher,
+  matchEndFinisherCount: 2,
+};
+
+let timers: FakeTimers;
+let roster: MatchRoster;
+let transitions: string[];
+let ticks: string[];
+let abortedCount: number;
+let resetCount: number;
+
+// Create a state machine over the fake timers and roster, recording its side effects
+function createMachine(config: Partial<MatchStateConfig> = {}): MatchStateMachine {
+  return new MatchStateMachine(
+    { ...defaultConfig, ...config },
+    timers,
+    () => roster,
+    {
+      onStateChanged: (fromState, toState) => transitions.push(`${GameState[fromState]}->${GameState[toState]}`),
+      onCountdownTick: (countdown, timeLeftMS) => ticks.push(`${MatchCountdown[countdown]}:${timeLeftMS}`),
+      onMatchAborted: () => abortedCount++,
+      onReset: () => resetCount++,
+    },
+  );
+}
+
+// Bring the machine from Ready to Playing with the given number of racers
+function startRace(machine: MatchStateMachine, racers: number): void {
+  roster.standbyCount = racers;
+  machine.playerJoinedStandby();
+  timers.advance(4000);
+  roster.standbyCount = 0;
+  roster.racerCount = racers;
+  assert.equal(machine.getState(), GameState.PlayingMatch);
+}
+
+beforeEach(() => {
+  timers = new FakeTimers();
+  roster = { standbyCount: 0, lobbyCount: 0, racerCount: 0, matchFull: false };
+  transitions = [];
+  ticks = [];
+  abortedCount = 0;
+  resetCount = 0;
+});
+
+describe('transition table', () => {
+  it('only allows the match cycle and cancelling the start', () => {
+    assert.ok(MatchStateMachine.canTransit(GameState.ReadyForMatch, GameState.StartingMatch));
+    assert.ok(MatchStateMachine.canTransit(GameState.StartingMatch, GameState.ReadyForMatch));
+    assert.ok(MatchStateMachine.canTransit(GameState.CompletedMatch, GameState.ReadyForMatch));
+    assert.ok(!MatchStateMachine.canTransit(GameState.ReadyForMatch, GameState.PlayingMatch));
+    assert.ok(!MatchStateMachine.canTransit(GameState.PlayingMatch, GameState.ReadyForMatch));
+    assert.ok(!MatchStateMachine.canTransit(GameState.EndingMatch, GameState.PlayingMatch));
+  });
+});
+
+describe('match start', () => {
+  it('waits for enough players in standby', () => {
+    const machine = createMachine();
+    roster.standbyCount = 1;
+    machine.playerJoinedStandby();
+    assert.equal(machine.getState(), GameState.ReadyForMatch);
+
+    roster.standbyCount = 2;
+    machine.playerJoinedStandby();
+    assert.equal(machine.getState(), GameState.StartingMatch);
+  });
+
+  it('counts down once a second and starts playing a second after the last tick', () => {
+    const machine = createMachine();
+    roster.standbyCount = 2;
+    machine.playerJoinedStandby();
+
+    timers.advance(3000);
+    assert.deepEqual(ticks, ['MatchStart:3000', 'MatchStart:2000', 'MatchStart:1000']);
+    assert.equal(machine.getState(), GameState.StartingMatch);
+
+    timers.advance(1000);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+    assert.deepEqual(transitions, ['ReadyForMatch->StartingMatch', 'StartingMatch->PlayingMatch']);
+    assert.equal(timers.activeCount(), 0);
+  });
+
+  it('waits for the ready percentage of the lobby unless the match is full', () => {
+    const machine = createMachine({ readyPercentageToStart: 50 });
+    roster.standbyCount = 2;
+    roster.lobbyCount = 3;
+    machine.playerJoinedStandby();
+    assert.equal(machine.getState(), GameState.ReadyForMatch);
+
+    roster.matchFull = true;
+    machine.playerJoinedStandby();
+    assert.equal(machine.getState(), GameState.StartingMatch);
+  });
+
+  it('cancels the countdown when too few players are left in standby', () => {
+    const machine = createMachine();
+    roster.standbyCount = 2;
+    machine.playerJoinedStandby();
+    timers.advance(1000);
+
+    roster.standbyCount = 1;
+    machine.playerLeftStandby();
+    assert.equal(machine.getState(), GameState.ReadyForMatch);
+    assert.equal(resetCount, 1);
+    assert.equal(timers.activeCount(), 0);
+  });
+
+  it('ignores players leaving standby while the match is ending', () => {
+    const machine = createMachine();
+    startRace(machine, 2);
+    machine.playerReachedGoal(1);
+    assert.equal(machine.getState(), GameState.EndingMatch);
+
+    machine.playerLeftStandby();
+    assert.equal(machine.getState(), GameState.EndingMatch);
+    assert.equal(resetCount, 0);
+  });
+});
+
+describe('match end rules', () => {
+  it('ends the match after the first finisher under FirstFinisher', () => {
+    const machine = createMachine();
+    startRace(machine, 3);
+    machine.playerReachedGoal(1);
+    assert.equal(machine.getState(), GameState.EndingMatch);
+
+    timers.advance(4000);
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+  });
+
+  it('waits for the finisher count under TopFinishers', () => {
+    const machine = createMachine({ matchEndRule: MatchEndRule.TopFinishers });
+    startRace(machine, 3);
+    machine.playerReachedGoal(1);
+    machine.playerReachedGoal(1);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+
+    machine.playerReachedGoal(2);
+    assert.equal(machine.getState(), GameState.EndingMatch);
+  });
+
+  it('waits for every racer under AllFinished, counting racers who left', () => {
+    const machine = createMachine({ matchEndRule: MatchEndRule.AllFinished });
+    startRace(machine, 3);
+    machine.playerReachedGoal(1);
+    machine.playerReachedGoal(2);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+
+    roster.racerCount = 2;
+    machine.playerLeftMatch(3);
+    assert.equal(machine.getState(), GameState.EndingMatch);
+  });
+
+  it('ends an AllFinished match at the safety time limit when there is no race time limit', () => {
+    const machine = createMachine({ matchEndRule: MatchEndRule.AllFinished });
+    startRace(machine, 2);
+    machine.playerReachedGoal(1);
+    timers.advance(59000);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+
+    timers.advance(2000);
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+  });
+
+  it('ends the match when the race time limit runs out', () => {
+    const machine = createMachine({ matchEndRule: MatchEndRule.TimeLimit, raceTimeLimitMS: 5000 });
+    startRace(machine, 2);
+    machine.playerReachedGoal(1);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+
+    timers.advance(6000);
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+    assert.ok(ticks.includes('RaceTimeLimit:1000'));
+  });
+
+  it('shortens the end countdown to the race time left', () => {
+    const machine = createMachine({ raceTimeLimitMS: 5000 });
+    startRace(machine, 2);
+    timers.advance(3000);
+    machine.playerReachedGoal(1);
+
+    timers.advance(2000);
+    assert.deepEqual(ticks.filter((tick) => tick.startsWith('MatchEnd')), ['MatchEnd:2000', 'MatchEnd:1000']);
+    timers.advance(1000);
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+  });
+});
+
+describe('new match', () => {
+  it('becomes ready after the countdown and starts right away with queued players', () => {
+    const machine = createMachine();
+    startRace(machine, 2);
+    machine.endMatch();
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+
+    roster.standbyCount = 2;
+    timers.advance(4000);
+    assert.deepEqual(transitions.slice(-2), ['CompletedMatch->ReadyForMatch', 'ReadyForMatch->StartingMatch']);
+    assert.equal(machine.getState(), GameState.StartingMatch);
+  });
+});
+
+describe('admin controls', () => {
+  it('only force starts a match with players in standby', () => {
+    const machine = createMachine();
+    assert.equal(machine.forceStartMatch(), false);
+
+    roster.standbyCount = 1;
+    assert.equal(machine.forceStartMatch(), true);
+    assert.equal(machine.getState(), GameState.StartingMatch);
+  });
+
+  it('skips the start countdown when force starting a starting match', () => {
+    const machine = createMachine();
+    roster.standbyCount = 2;
+    machine.playerJoinedStandby();
+    assert.equal(machine.forceStartMatch(), true);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+
+    timers.advance(4000);
+    assert.equal(machine.getState(), GameState.PlayingMatch);
+  });
+
+  it('aborts a running match without an end countdown', () => {
+    const machine = createMachine();
+    startRace(machine, 2);
+    assert.equal(machine.abortMatch(), true);
+    assert.equal(abortedCount, 1);
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+    assert.equal(machine.abortMatch(), false);
+  });
+
+  it('skips the end and new match countdowns', () => {
+    const machine = createMachine();
+    startRace(machine, 2);
+    machine.playerReachedGoal(1);
+    assert.equal(machine.skipEndCountdown(), true);
+    assert.equal(machine.getState(), GameState.CompletedMatch);
+    assert.equal(machine.skipEndCountdown(), true);
+    assert.equal(machine.getState(), GameState.ReadyForMatch);
+    assert.equal(machine.skipEndCountdown(), false);
+    assert.equal(timers.activeCount(), 0);
+  });
+});
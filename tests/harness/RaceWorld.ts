@@ -0,0 +1,124 @@
+/**
+ * Builds a small race world on the fake horizon/core for scenario tests.
+ * The track runs straight along the z axis from the match spawn point to the goal, with a checkpoint halfway.
+ * The lobby, with the match registration trigger, and the spectator area sit behind the start.
+ * Relay runners wait for their leg beside the start, and take the baton right by it.
+ */
+import './register';
+import * as hz from 'horizon/core';
+import { Entity, getRegisteredComponent, Player, Vec3, World } from './horizon/core';
+import { PlayerGameStatus } from 'GameUtils';
+import { CareerStatsManager } from 'CareerStatsManager';
+import { GameManager } from 'GameManager';
+import { MatchJournal } from 'MatchJournal';
+import { MatchManager } from 'MatchManager';
+import { MatchResultsManager } from 'MatchResultsManager';
+import { RaceManager } from 'RaceManager';
+import { SplitTimesManager } from 'SplitTimesManager';
+import { TimeTrialManager } from 'TimeTrialManager';
+import 'PlayerCheckpointTrigger';
+import 'PlayerRegisterMatchTrigger';
+import 'PlayerVictoryTrigger';
+
+export const trackLength = 100; // Distance from the match spawn point to the goal
+export const registerPosition = new Vec3(10, 0, -50); // Center of the match registration trigger
+export const lobbyPosition = new Vec3(0, 0, -50); // Lobby spawn point
+export const relayWaitingPosition = new Vec3(20, 0, -10); // Spawn point where relay runners wait for their leg
+export const relayHandoffPosition = new Vec3(2, 0, 0); // Spawn point where relay runners take the baton
+
+export type RaceWorld = {
+  world: World,
+  gameManager: GameManager,
+  matchManager: MatchManager,
+  raceManager: RaceManager,
+  journal: MatchJournal,
+  careerStats: CareerStatsManager,
+  gameStateUI: Entity, // Start line game state text
+  trackPoints: Vec3[], // Points along the track from the start to the goal
+};
+
+// Create the race world and start its components. The props override the manager defaults,
+// and the components of a race mode can be added to the managers before the world starts
+export function createRaceWorld(
+  gameManagerProps: Record<string, unknown> = {},
+  matchManagerProps: Record<string, unknown> = {},
+  raceManagerProps: Record<string, unknown> = {},
+  addComponents: (world: World, managers: Entity) => void = () => { },
+): RaceWorld {
+  const world = new World();
+
+  const trackPointsParent = world.createEntity('TrackPoints');
+  const trackPoints: Vec3[] = [];
+  for (let z = 0; z <= trackLength; z += trackLength / 5) {
+    trackPoints.push(new Vec3(0, 0, z));
+    world.createEntity(`TrackPoint${z}`, new Vec3(0, 0, z), { parent: trackPointsParent });
+  }
+
+  const gameStateUI = world.createEntity('GameStateUI');
+  const managers = world.createEntity('Managers');
+
+  const gameManager = world.createComponent(GameManager, managers, {
+    startLineGameStateUI: gameStateUI,
+    finishLineGameStateUI: world.createEntity('FinishGameStateUI'),
+    playersNeededForMatch: 2,
+    ...gameManagerProps,
+  });
+  const matchManager = world.createComponent(MatchManager, managers, {
+    lobbySpawnPoint: world.createEntity('LobbySpawn', lobbyPosition),
+    matchSpawnPoint: world.createEntity('MatchSpawn', Vec3.zero),
+    spectatorSpawnPoint: world.createEntity('SpectatorSpawn', new Vec3(-20, 0, -80)),
+    ...matchManagerProps,
+  });
+  const raceManager = world.createComponent(RaceManager, managers, {
+    trackPointsParent,
+    relayWaitingSpawnPoint: world.createEntity('RelayWaitingSpawn', relayWaitingPosition),
+    relayHandoffSpawnPoint: world.createEntity('RelayHandoffSpawn', relayHandoffPosition),
+    ...raceManagerProps,
+  });
+  world.createComponent(TimeTrialManager, managers);
+  const journal = world.createComponent(MatchJournal, managers, { logTimelineOnComplete: false });
+  const careerStats = world.createComponent(CareerStatsManager, managers);
+  world.createComponent(SplitTimesManager, managers);
+  world.createComponent(MatchResultsManager, managers);
+  addComponents(world, managers);
+
+  world.createComponent(getRegisteredComponent('PlayerRegisterMatchTrigger'),
+    world.createEntity('RegisterTrigger', registerPosition, { triggerRadius: 2 }));
+  world.createComponent(getRegisteredComponent('PlayerCheckpointTrigger'),
+    world.createEntity('Checkpoint', new Vec3(0, 0, trackLength / 2), { triggerRadius: 3 }), { checkpointIndex: 0 });
+  world.createComponent(getRegisteredComponent('PlayerVictoryTrigger'),
+    world.createEntity('Goal', new Vec3(0, 0, trackLength), { triggerRadius: 3 }));
+
+  world.start();
+  return { world, gameManager, matchManager, raceManager, journal, careerStats, gameStateUI, trackPoints };
+}
+
+// Get the game status of a fake player from the MatchManager
+export function statusOf(race: RaceWorld, player: Player): PlayerGameStatus | null {
+  return race.matchManager.getPlayerGameStatus(player as unknown as hz.Player);
+}
+
+// Walk the players into the registration trigger and wait for the start countdown to finish
+export function registerAndStart(race: RaceWorld, players: Player[]): void {
+  players.forEach((player) => race.world.movePlayerAlong(player, [registerPosition], 20));
+  race.world.advance(5000);
+}
+
+// Race Alice to the goal ahead of Bob, with Carol left behind on the track, and let the match complete.
+// The callback runs once the race has started, before anyone moves
+export function runThreeRacerMatch(race: RaceWorld, onRaceStarted: (racers: { alice: Player, bob: Player, carol: Player }) => void = () => { }): { alice: Player, bob: Player, carol: Player } {
+  const racers = {
+    alice: race.world.addPlayer('Alice', lobbyPosition),
+    bob: race.world.addPlayer('Bob', lobbyPosition),
+    carol: race.world.addPlayer('Carol', lobbyPosition),
+  };
+  registerAndStart(race, [racers.alice, racers.bob, racers.carol]);
+  onRaceStarted(racers);
+
+  race.world.movePlayerAlong(racers.carol, [new Vec3(0, 0, 20)], 20);
+  race.world.movePlayerAlong(racers.bob, [new Vec3(0, 0, 40)], 20);
+  race.world.movePlayerAlong(racers.alice, race.trackPoints, 25);
+  race.world.movePlayerAlong(racers.bob, race.trackPoints.slice(3), 25);
+  race.world.advance(5000);
+  return racers;
+}
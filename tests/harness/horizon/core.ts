@@ -0,0 +1,581 @@
+/**
+ * Headless fake of the horizon/core surface used by the world scripts.
+ * It covers the component lifecycle, local, network and code block events, async timers on a manual clock,
+ * players, entities and the gizmos the scripts use, popups, persistent storage and leaderboards.
+ * The World class also carries the harness controls: adding players, moving them through trigger volumes and advancing time.
+ */
+
+// A listener takes the arguments of the event it is connected to
+type Listener = (...args: never) => void;
+
+// Definition of a component property, only the default value is used by the harness
+type PropDefinition = { type: string, default?: unknown };
+
+// A timer scheduled on the world clock
+type FakeTimer = { callback: () => void, dueMS: number, intervalMS: number | null };
+
+// A popup shown by a script, player is null for popups shown to everyone
+export type FakePopup = { player: Player | null, text: string };
+
+// A network event sent to a single player or entity
+export type FakeNetworkMessage<T = unknown> = { target: Player | Entity, event: NetworkEvent<T>, data: T };
+
+export const PropTypes = {
+  Number: 'number',
+  String: 'string',
+  Boolean: 'boolean',
+  Vec3: 'Vec3',
+  Color: 'Color',
+  Entity: 'Entity',
+  Quaternion: 'Quaternion',
+  Player: 'Player',
+  Asset: 'Asset',
+  NumberArray: 'Array<number>',
+  StringArray: 'Array<string>',
+};
+
+export enum PlayerVisibilityMode {
+  VisibleTo = 0,
+  HiddenFrom = 1,
+}
+
+export class Vec3 {
+  constructor(public x: number, public y: number, public z: number) { }
+
+  static get zero() { return new Vec3(0, 0, 0); }
+  static get one() { return new Vec3(1, 1, 1); }
+  static get up() { return new Vec3(0, 1, 0); }
+  static get down() { return new Vec3(0, -1, 0); }
+  static get forward() { return new Vec3(0, 0, 1); }
+  static get backward() { return new Vec3(0, 0, -1); }
+  static get left() { return new Vec3(-1, 0, 0); }
+  static get right() { return new Vec3(1, 0, 0); }
+
+  static lerp(a: Vec3, b: Vec3, amount: number): Vec3 {
+    return a.add(b.sub(a).mul(amount));
+  }
+
+  clone(): Vec3 { return new Vec3(this.x, this.y, this.z); }
+  add(v: Vec3): Vec3 { return new Vec3(this.x + v.x, this.y + v.y, this.z + v.z); }
+  sub(v: Vec3): Vec3 { return new Vec3(this.x - v.x, this.y - v.y, this.z - v.z); }
+  mul(scalar: number): Vec3 { return new Vec3(this.x * scalar, this.y * scalar, this.z * scalar); }
+  div(scalar: number): Vec3 { return new Vec3(this.x / scalar, this.y / scalar, this.z / scalar); }
+  dot(v: Vec3): number { return this.x * v.x + this.y * v.y + this.z * v.z; }
+  cross(v: Vec3): Vec3 {
+    return new Vec3(this.y * v.z - this.z * v.y, this.z * v.x - this.x * v.z, this.x * v.y - this.y * v.x);
+  }
+  magnitudeSquared(): number { return this.dot(this); }
+  magnitude(): number { return Math.sqrt(this.magnitudeSquared()); }
+  distanceSquared(v: Vec3): number { return this.sub(v).magnitudeSquared(); }
+  distance(v: Vec3): number { return Math.sqrt(this.distanceSquared(v)); }
+  normalize(): Vec3 {
+    const magnitude = this.magnitude();
+    return magnitude > 0 ? this.div(magnitude) : Vec3.zero;
+  }
+  equals(v: Vec3): boolean { return this.x === v.x && this.y === v.y && this.z === v.z; }
+  toString(): string { return `(${this.x}, ${this.y}, ${this.z})`; }
+}
+
+export class Quaternion {
+  constructor(public x: number, public y: number, public z: number, public w: number) { }
+
+  static get one() { return new Quaternion(0, 0, 0, 1); }
+
+  static fromAxisAngle(axis: Vec3, angle: number): Quaternion {
+    const unit = axis.normalize();
+    const s = Math.sin(angle / 2);
+    return new Quaternion(unit.x * s, unit.y * s, unit.z * s, Math.cos(angle / 2));
+  }
+
+  static mulVec3(q: Quaternion, v: Vec3): Vec3 {
+    const u = new Vec3(q.x, q.y, q.z);
+    const t = u.cross(v).mul(2);
+    return v.add(t.mul(q.w)).add(u.cross(t));
+  }
+
+  mul(q: Quaternion): Quaternion {
+    return new Quaternion(
+      this.w * q.x + this.x * q.w + this.y * q.z - this.z * q.y,
+      this.w * q.y - this.x * q.z + this.y * q.w + this.z * q.x,
+      this.w * q.z + this.x * q.y - this.y * q.x + this.z * q.w,
+      this.w * q.w - this.x * q.x - this.y * q.y - this.z * q.z,
+    );
+  }
+
+  inverse(): Quaternion { return new Quaternion(-this.x, -this.y, -this.z, this.w); }
+  clone(): Quaternion { return new Quaternion(this.x, this.y, this.z, this.w); }
+}
+
+export class Color {
+  constructor(public r: number, public g: number, public b: number) { }
+
+  static get white() { return new Color(1, 1, 1); }
+  static get black() { return new Color(0, 0, 0); }
+  static get red() { return new Color(1, 0, 0); }
+  static get green() { return new Color(0, 1, 0); }
+  static get blue() { return new Color(0, 0, 1); }
+}
+
+export class LocalEvent<TPayload = Record<string, unknown>> {
+  private static nextID = 0;
+  readonly name: string;
+  protected payload?: TPayload; // Only carries the payload type
+
+  constructor(name?: string) {
+    this.name = name ?? `LocalEvent${LocalEvent.nextID++}`;
+  }
+}
+
+export class NetworkEvent<TPayload = Record<string, unknown>> {
+  private static nextID = 0;
+  readonly name: string;
+  protected payload?: TPayload; // Only carries the payload type
+
+  constructor(name?: string) {
+    this.name = name ?? `NetworkEvent${NetworkEvent.nextID++}`;
+  }
+}
+
+export class CodeBlockEvent<TArgs extends unknown[] = unknown[]> {
+  protected args?: TArgs; // Only carries the argument types
+
+  constructor(readonly name: string, readonly isWorldEvent = false) { }
+}
+
+export const CodeBlockEvents = {
+  OnPlayerEnterTrigger: new CodeBlockEvent<[Player]>('occupied'),
+  OnPlayerExitTrigger: new CodeBlockEvent<[Player]>('empty'),
+  OnEntityEnterTrigger: new CodeBlockEvent<[Entity]>('occupied'),
+  OnEntityExitTrigger: new CodeBlockEvent<[Entity]>('empty'),
+  OnPlayerEnterWorld: new CodeBlockEvent<[Player]>('OnPlayerEnterWorld', true),
+  OnPlayerExitWorld: new CodeBlockEvent<[Player]>('OnPlayerExitWorld', true),
+};
+
+export class EventSubscription {
+  constructor(private readonly onDisconnect: () => void) { }
+
+  disconnect(): void {
+    this.onDisconnect();
+  }
+}
+
+// A readable and writable property, with an optional hook run after each change
+export class HorizonProperty<T> {
+  constructor(private value: T, private readonly onSet?: (value: T) => void) { }
+
+  get(): T {
+    return this.value;
+  }
+
+  set(value: T): void {
+    this.value = value;
+    this.onSet?.(value);
+  }
+}
+
+export class Player {
+  readonly name: HorizonProperty<string>;
+  readonly position: HorizonProperty<Vec3>;
+  readonly rotation = new HorizonProperty<Quaternion>(Quaternion.one);
+  readonly isInBuildMode = new HorizonProperty<boolean>(false);
+
+  constructor(readonly id: number, name: string, private readonly world: World) {
+    this.name = new HorizonProperty(name);
+    this.position = new HorizonProperty(Vec3.zero, () => this.world.updateTriggers(this));
+  }
+
+  toString(): string {
+    return `Player(${this.name.get()})`;
+  }
+}
+
+// A fake entity; it carries the state of every gizmo the scripts use, so as() can return the entity itself
+export class Entity {
+  readonly name: HorizonProperty<string>;
+  readonly position: HorizonProperty<Vec3>;
+  readonly rotation = new HorizonProperty<Quaternion>(Quaternion.one);
+  readonly visible = new HorizonProperty<boolean>(true);
+  readonly children = new HorizonProperty<Entity[]>([]);
+  readonly parent = new HorizonProperty<Entity | null>(null);
+  readonly text = new HorizonProperty<string>(''); // Text of a TextGizmo
+  triggerRadius: number | null = null; // Radius of the trigger volume around the entity, null if it is not a trigger
+  visibleTo: Player[] | null = null; // Players the entity is visible to, null if it is visible to everyone
+  playing = false; // Whether a trail, particle or audio gizmo is playing
+
+  constructor(readonly id: number, name: string, position: Vec3) {
+    this.name = new HorizonProperty(name);
+    this.position = new HorizonProperty(position);
+  }
+
+  as<T extends Entity>(_entityClass: new (...args: never[]) => T): T {
+    return this as unknown as T;
+  }
+
+  setVisibilityForPlayers(players: Player[], mode: PlayerVisibilityMode): void {
+    this.visibleTo = mode === PlayerVisibilityMode.VisibleTo ? players.slice() : null;
+  }
+
+  resetVisibilityForPlayers(): void {
+    this.visibleTo = null;
+  }
+
+  teleportPlayer(player: Player): void {
+    player.rotation.set(this.rotation.get());
+    player.position.set(this.position.get());
+  }
+
+  play(): void { this.playing = true; }
+  stop(): void { this.playing = false; }
+
+  toString(): string {
+    return `Entity(${this.name.get()})`;
+  }
+}
+
+export class TextGizmo extends Entity { }
+export class SpawnPointGizmo extends Entity { }
+export class TrailGizmo extends Entity { }
+export class ParticleGizmo extends Entity { }
+export class AudioGizmo extends Entity { }
+
+// Component constructors the harness can create
+export type ComponentClass = (new () => Component) & { propsDefinition: Record<string, PropDefinition> };
+
+const registeredComponents = new Map<string, ComponentClass>(); // Components registered by the loaded scripts, by class name
+
+// Get a component class registered by a loaded script, for components the scripts do not export
+export function getRegisteredComponent(name: string): ComponentClass {
+  const componentClass = registeredComponents.get(name);
+  if (!componentClass) {
+    throw new Error(`Component ${name} is not registered, import its script first`);
+  }
+  return componentClass;
+}
+
+export class Component<TComponent = unknown, _TState = unknown> {
+  static propsDefinition: Record<string, PropDefinition> = {};
+
+  readonly props: Record<string, unknown>;
+  readonly entity: Entity;
+  readonly world: World;
+  readonly async: World['async'];
+  private subscriptions: EventSubscription[] = []; // Subscriptions disconnected when the component is disposed
+  protected typeCarrier?: TComponent; // Only carries the component type
+
+  static register(componentClass: ComponentClass): void {
+    registeredComponents.set(componentClass.name, componentClass);
+  }
+
+  constructor() {
+    const context = World.constructionContext;
+    if (!context) {
+      throw new Error(`Components must be created with World.createComponent`);
+    }
+    this.world = context.world;
+    this.entity = context.entity;
+    this.props = context.props;
+    this.async = context.world.async;
+  }
+
+  preStart?(): void;
+  start(): void { }
+  dispose(): void { }
+
+  connectLocalBroadcastEvent<T>(event: LocalEvent<T>, callback: (data: T) => void): EventSubscription {
+    return this.track(this.world.addListener('local', event, null, callback));
+  }
+
+  connectLocalEvent<T>(target: Entity | Player, event: LocalEvent<T>, callback: (data: T) => void): EventSubscription {
+    return this.track(this.world.addListener('local', event, target, callback));
+  }
+
+  connectNetworkBroadcastEvent<T>(event: NetworkEvent<T>, callback: (data: T) => void): EventSubscription {
+    return this.track(this.world.addListener('network', event, null, callback));
+  }
+
+  connectNetworkEvent<T>(target: Entity | Player, event: NetworkEvent<T>, callback: (data: T) => void): EventSubscription {
+    return this.track(this.world.addListener('network', event, target, callback));
+  }
+
+  connectCodeBlockEvent<TArgs extends unknown[]>(target: Entity | Player, event: CodeBlockEvent<TArgs>, callback: (...args: TArgs) => void): EventSubscription {
+    return this.track(this.world.addListener('codeBlock', event, event.isWorldEvent ? null : target, callback));
+  }
+
+  sendLocalBroadcastEvent<T>(event: LocalEvent<T>, data: T): void {
+    this.world.dispatch('local', event, null, data);
+  }
+
+  sendLocalEvent<T>(target: Entity | Player, event: LocalEvent<T>, data: T): void {
+    this.world.dispatch('local', event, target, data);
+  }
+
+  sendNetworkBroadcastEvent<T>(event: NetworkEvent<T>, data: T): void {
+    this.world.dispatch('network', event, null, data);
+  }
+
+  sendNetworkEvent<T>(target: Entity | Player, event: NetworkEvent<T>, data: T): void {
+    this.world.networkMessages.push({ target, event, data });
+    this.world.dispatch('network', event, target, data);
+  }
+
+  // Keep the subscription so it is disconnected when the component is disposed
+  private track(subscription: EventSubscription): EventSubscription {
+    this.subscriptions.push(subscription);
+    return subscription;
+  }
+
+  // Disconnect every subscription of the component
+  disconnectAll(): void {
+    this.subscriptions.forEach((subscription) => subscription.disconnect());
+    this.subscriptions = [];
+  }
+}
+
+// A listener connected to the world's event bus
+type WorldListener = { kind: string, event: object, target: Entity | Player | null, callback: Listener };
+
+export class World {
+  static onUpdate = new LocalEvent<{ deltaTime: number }>('World.onUpdate');
+  static onPrePhysicsUpdate = new LocalEvent<{ deltaTime: number }>('World.onPrePhysicsUpdate');
+
+  // Set while a component is constructed, so the Component constructor can pick up its world, entity and props
+  static constructionContext: { world: World, entity: Entity, props: Record<string, unknown> } | null = null;
+
+  readonly popups: FakePopup[] = []; // Every popup shown, oldest first
+  readonly networkMessages: FakeNetworkMessage[] = []; // Every network event sent to a single target, oldest first
+  readonly leaderboardScores = new Map<string, number>(); // Scores by "leaderboard:player name"
+  readonly playerVariables = new Map<string, unknown>(); // Persistent player variables by "player name:key"
+
+  private nowMS = 1000000; // Current time on the world clock
+  private players: Player[] = [];
+  private components: Component[] = [];
+  private listeners: WorldListener[] = [];
+  private timers = new Map<number, FakeTimer>();
+  private nextTimerID = 1;
+  private nextObjectID = 1;
+  private insideTriggers = new Map<Player, Set<Entity>>(); // Trigger volumes each player is inside
+  private triggers: Entity[] = [];
+  private entities: Entity[] = [];
+  private readonly realDateNow = Date.now; // Restored when the world is disposed
+
+  readonly ui = {
+    showPopupForPlayer: (player: Player, text: string, _displayTime: number) => {
+      this.popups.push({ player, text });
+    },
+    showPopupForEveryone: (text: string, _displayTime: number) => {
+      this.popups.push({ player: null, text });
+    },
+  };
+
+  readonly persistentStorage = {
+    getPlayerVariable: <T = number>(player: Player, key: string): T => {
+      return (this.playerVariables.get(`${player.name.get()}:${key}`) ?? 0) as T;
+    },
+    setPlayerVariable: (player: Player, key: string, value: unknown) => {
+      this.playerVariables.set(`${player.name.get()}:${key}`, value);
+    },
+  };
+
+  readonly leaderboards = {
+    setScoreForPlayer: (leaderboardName: string, player: Player, score: number, _override: boolean) => {
+      this.leaderboardScores.set(`${leaderboardName}:${player.name.get()}`, score);
+    },
+  };
+
+  readonly async = {
+    setTimeout: (callback: () => void, timeoutMS = 0): number => this.addTimer(callback, timeoutMS, null),
+    setInterval: (callback: () => void, intervalMS = 0): number => this.addTimer(callback, intervalMS, Math.max(intervalMS, 1)),
+    clearTimeout: (timerID: number) => { this.timers.delete(timerID); },
+    clearInterval: (timerID: number) => { this.timers.delete(timerID); },
+  };
+
+  // The world clock drives Date.now, so wall-clock timestamps in the scripts follow the fake time
+  constructor() {
+    Date.now = () => this.nowMS;
+  }
+
+  getPlayers(): Player[] {
+    return this.players.slice();
+  }
+
+  getServerPlayer(): Player {
+    return new Player(-1, 'Server', this);
+  }
+
+  // Create an entity; give it a trigger radius to make it a trigger volume players enter by moving into it
+  createEntity(name: string, position = Vec3.zero, options: { triggerRadius?: number, parent?: Entity } = {}): Entity {
+    const entity = new Entity(this.nextObjectID++, name, position);
+    this.entities.push(entity);
+    if (options.triggerRadius !== undefined) {
+      entity.triggerRadius = options.triggerRadius;
+      this.triggers.push(entity);
+    }
+    if (options.parent) {
+      entity.parent.set(options.parent);
+      options.parent.children.set([...options.parent.children.get(), entity]);
+    }
+    return entity;
+  }
+
+  // Find the first entity created with the name
+  findEntity(name: string): Entity | null {
+    return this.entities.find((entity) => entity.name.get() === name) ?? null;
+  }
+
+  // Create a component on the entity, filling the props it is not given with their defaults
+  createComponent<T extends object>(componentClass: new () => T, entity: Entity, props: Record<string, unknown> = {}): T {
+    const definition = (componentClass as unknown as ComponentClass).propsDefinition ?? {};
+    const allProps: Record<string, unknown> = {};
+    Object.keys(definition).forEach((key) => {
+      allProps[key] = definition[key].default;
+    });
+    World.constructionContext = { world: this, entity, props: { ...allProps, ...props } };
+    try {
+      const component = new componentClass();
+      this.components.push(component as unknown as Component);
+      return component;
+    } finally {
+      World.constructionContext = null;
+    }
+  }
+
+  // Run preStart on every component, then start, as Horizon does when the world starts
+  start(): void {
+    this.components.forEach((component) => component.preStart?.());
+    this.components.forEach((component) => component.start());
+  }
+
+  // Add a player to the world
+  addPlayer(name: string, position = Vec3.zero): Player {
+    const player = new Player(this.nextObjectID++, name, this);
+    this.players.push(player);
+    this.insideTriggers.set(player, new Set());
+    this.dispatch('codeBlock', CodeBlockEvents.OnPlayerEnterWorld, null, player);
+    player.position.set(position);
+    return player;
+  }
+
+  // Remove a player from the world
+  removePlayer(player: Player): void {
+    this.players = this.players.filter((other) => other !== player);
+    this.insideTriggers.delete(player);
+    this.dispatch('codeBlock', CodeBlockEvents.OnPlayerExitWorld, null, player);
+  }
+
+  // Advance the world clock, running due timers and an update event every frame
+  advance(timeMS: number, frameMS = 100): void {
+    const endMS = this.nowMS + timeMS;
+    while (this.nowMS < endMS) {
+      const frameEndMS = Math.min(this.nowMS + frameMS, endMS);
+      const deltaTime = (frameEndMS - this.nowMS) / 1000;
+      this.runTimersUntil(frameEndMS);
+      this.nowMS = frameEndMS;
+      this.dispatch('local', World.onUpdate, null, { deltaTime });
+    }
+  }
+
+  // Move the player along the points at the given speed, advancing the world clock as they go
+  movePlayerAlong(player: Player, points: Vec3[], speed: number, frameMS = 100): void {
+    points.forEach((target) => {
+      for (;;) {
+        const position = player.position.get();
+        const remaining = target.sub(position);
+        const step = speed * frameMS / 1000;
+        if (remaining.magnitude() <= step) {
+          player.position.set(target);
+          break;
+        }
+        player.position.set(position.add(remaining.normalize().mul(step)));
+        this.advance(frameMS, frameMS);
+      }
+    });
+  }
+
+  // Get the popups shown to the player, including those shown to everyone
+  getPopupsFor(player: Player): string[] {
+    return this.popups.filter((popup) => popup.player === null || popup.player === player).map((popup) => popup.text);
+  }
+
+  // Dispose every component and restore the real clock. Singletons are cleared so the next test can create a fresh world
+  dispose(): void {
+    this.components.forEach((component) => {
+      component.dispose();
+      component.disconnectAll();
+      const componentClass = component.constructor as unknown as { s_instance?: unknown };
+      if (componentClass.s_instance === component) {
+        componentClass.s_instance = undefined;
+      }
+    });
+    this.components = [];
+    this.listeners = [];
+    this.timers.clear();
+    Date.now = this.realDateNow;
+  }
+
+  // Fire the trigger events for the trigger volumes the player moved into or out of
+  updateTriggers(player: Player): void {
+    const inside = this.insideTriggers.get(player);
+    if (!inside) {
+      return;
+    }
+    const position = player.position.get();
+    this.triggers.forEach((trigger) => {
+      const isInside = trigger.position.get().distance(position) <= trigger.triggerRadius!;
+      if (isInside && !inside.has(trigger)) {
+        inside.add(trigger);
+        this.dispatch('codeBlock', CodeBlockEvents.OnPlayerEnterTrigger, trigger, player);
+      } else if (!isInside && inside.has(trigger)) {
+        inside.delete(trigger);
+        this.dispatch('codeBlock', CodeBlockEvents.OnPlayerExitTrigger, trigger, player);
+      }
+    });
+  }
+
+  // Connect a listener to the event bus, a null target listens to broadcasts
+  addListener(kind: string, event: object, target: Entity | Player | null, callback: Listener): EventSubscription {
+    const listener: WorldListener = { kind, event, target, callback };
+    this.listeners.push(listener);
+    return new EventSubscription(() => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    });
+  }
+
+  // Deliver the event to its listeners, a null target delivers a broadcast.
+  // The listeners were connected for this event, so they take its arguments
+  dispatch(kind: string, event: object, target: Entity | Player | null, ...args: unknown[]): void {
+    this.listeners
+      .filter((listener) => listener.kind === kind && listener.event === event && listener.target === target)
+      .forEach((listener) => listener.callback(...args as never));
+  }
+
+  // Schedule a timer on the world clock
+  private addTimer(callback: () => void, delayMS: number, intervalMS: number | null): number {
+    const timerID = this.nextTimerID++;
+    this.timers.set(timerID, { callback, dueMS: this.nowMS + Math.max(delayMS, 0), intervalMS });
+    return timerID;
+  }
+
+  // Run every timer that is due by the given time, in order
+  private runTimersUntil(timeMS: number): void {
+    for (;;) {
+      let dueID = 0;
+      let due: FakeTimer | undefined;
+      this.timers.forEach((timer, timerID) => {
+        if (timer.dueMS <= timeMS && (!due || timer.dueMS < due.dueMS)) {
+          due = timer;
+          dueID = timerID;
+        }
+      });
+      if (!due) {
+        return;
+      }
+      this.nowMS = Math.max(this.nowMS, due.dueMS);
+      if (due.intervalMS === null) {
+        this.timers.delete(dueID);
+      } else {
+        due.dueMS += due.intervalMS;
+      }
+      due.callback();
+    }
+  }
+}
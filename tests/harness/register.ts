@@ -0,0 +1,29 @@
+/**
+ * Lets the world scripts load under plain Node.
+ * The scripts import Horizon modules and each other by bare name, as Horizon resolves them. This maps the Horizon
+ * modules to the fakes in this harness and every other bare name to the compiled script of that name.
+ * Import it before any world script.
+ */
+import Module from 'node:module';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+const buildRoot = path.resolve(__dirname, '..', '..'); // Directory the world scripts are compiled to
+const horizonModules: Record<string, string> = {
+  'horizon/core': path.join(__dirname, 'horizon', 'core.js'),
+};
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (this: unknown, request: string, parent: unknown, ...rest: unknown[]): string {
+  const horizonModule = horizonModules[request];
+  if (horizonModule) {
+    return horizonModule;
+  }
+  if (!request.startsWith('.') && !request.includes(':')) {
+    const script = path.join(buildRoot, `${request}.js`);
+    if (fs.existsSync(script)) {
+      return script;
+    }
+  }
+  return resolveFilename.call(this, request, parent, ...rest);
+};
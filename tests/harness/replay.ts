@@ -0,0 +1,79 @@
+/**
+ * Replays a match timeline recorded by the MatchJournal into a fake world.
+ * Only the events players cause are sent again, at the times they were recorded; everything else in the timeline
+ * is what the scripts did in response, so a replay can be checked against the recorded timeline.
+ */
+import './register';
+import { Player, Vec3, World } from './horizon/core';
+import { Events } from 'Events';
+import { JournalValue, MatchTimeline } from 'MatchJournal';
+
+// Events a replay sends again, the ones the triggers send when players move through them
+export const replayedEvents: (keyof typeof Events)[] = [
+  'onRegisterPlayerForMatch',
+  'onDeregisterPlayerForMatch',
+  'onTogglePlayerReady',
+  'onPlayerCrossedStartLine',
+  'onPlayerEnteredCheckpoint',
+  'onPlayerEnteredGoal',
+  'onPlayerEnteredRelayHandoff',
+  'onRegisterPlayerForTimeTrial',
+  'onDeregisterPlayerForTimeTrial',
+];
+
+// Replay the timeline into the world, adding the players it names at the spawn position
+export function replayTimeline(world: World, timeline: MatchTimeline, spawnPosition = Vec3.zero): void {
+  const startMS = Date.now();
+  const getPlayer = (name: string): Player => {
+    return world.getPlayers().find((player) => player.name.get() === name) ?? world.addPlayer(name, spawnPosition);
+  };
+
+  timeline.entries.forEach((entry) => {
+    const waitMS = entry.timeMS - (Date.now() - startMS);
+    if (waitMS > 0) {
+      world.advance(waitMS);
+    }
+
+    if (entry.kind === 'world') {
+      const name = playerName(entry.data);
+      if (entry.event === 'OnPlayerEnterWorld' && name !== null) {
+        getPlayer(name);
+      } else if (entry.event === 'OnPlayerExitWorld' && name !== null) {
+        world.removePlayer(getPlayer(name));
+      }
+    } else if (entry.kind === 'local' && replayedEvents.includes(entry.event as keyof typeof Events)) {
+      const event = Events[entry.event as keyof typeof Events];
+      world.dispatch('local', event, null, fromJournalValue(entry.data, world, getPlayer));
+    }
+  });
+}
+
+// Name of the player in world event data
+function playerName(data: JournalValue): string | null {
+  const player = data !== null && typeof data === 'object' && !Array.isArray(data) ? data.player : null;
+  return player !== null && typeof player === 'object' && !Array.isArray(player) && typeof player.$player === 'string'
+    ? player.$player
+    : null;
+}
+
+// Turn a journal value back into event data, resolving the player, entity and vector markers
+function fromJournalValue(value: JournalValue, world: World, getPlayer: (name: string) => Player): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  } else if (Array.isArray(value)) {
+    return value.map((item) => fromJournalValue(item, world, getPlayer));
+  } else if (typeof value.$player === 'string') {
+    return getPlayer(value.$player);
+  } else if (typeof value.$entity === 'string') {
+    return world.findEntity(value.$entity);
+  } else if (Array.isArray(value.$vec3)) {
+    const [x, y, z] = value.$vec3 as number[];
+    return new Vec3(x, y, z);
+  }
+
+  const data: Record<string, unknown> = {};
+  Object.keys(value).forEach((key) => {
+    data[key] = fromJournalValue(value[key], world, getPlayer);
+  });
+  return data;
+}
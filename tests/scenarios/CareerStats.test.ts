@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as hz from 'horizon/core';
+import { createRaceWorld, lobbyPosition, RaceWorld, runThreeRacerMatch } from '../harness/RaceWorld';
+import { Player } from '../harness/horizon/core';
+import { Events } from 'Events';
+import { PlayerAbility } from 'GameUtils';
+import { CareerStats, careerStatsVariableKey as statsKey, createCareerStats } from 'CareerStatsManager';
+
+let race: RaceWorld;
+
+beforeEach(() => {
+  race = createRaceWorld();
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+// The stats of a player as last saved to persistent storage
+function savedStats(player: Player): CareerStats {
+  return race.world.playerVariables.get(`${player.name.get()}:${statsKey}`) as CareerStats;
+}
+
+describe('career stats', () => {
+  it('counts wins, podiums, finishes and DNFs from the race results', () => {
+    const { alice, bob, carol } = runThreeRacerMatch(race);
+
+    const aliceStats = savedStats(alice);
+    assert.equal(aliceStats.racesStarted, 1);
+    assert.equal(aliceStats.wins, 1);
+    assert.equal(aliceStats.podiums, 1);
+    assert.ok(aliceStats.bestTimes['Skyline'] > 0);
+    assert.equal(savedStats(bob).wins, 0);
+    assert.equal(savedStats(bob).podiums, 1);
+    assert.equal(savedStats(carol).racesFinished, 0);
+    assert.equal(savedStats(carol).dnfs, 1);
+  });
+
+  it('adds to the stored stats and counts abilities and falls', () => {
+    race.world.playerVariables.set(`Alice:${statsKey}`, { ...createCareerStats(), wins: 4, bestTimes: { Skyline: 30 } });
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+
+    race.world.dispatch('network', Events.onPlayerAbilityUsed, null, { player: alice, ability: PlayerAbility.DoubleJump });
+    race.world.dispatch('network', Events.onPlayerAbilityUsed, null, { player: alice, ability: PlayerAbility.Boost });
+    race.world.dispatch('network', Events.onPlayerOutOfBounds, alice, {});
+    race.world.removePlayer(alice);
+
+    const stats = savedStats(alice);
+    assert.equal(stats.wins, 4);
+    assert.deepEqual(stats.bestTimes, { Skyline: 30 });
+    assert.equal(stats.doubleJumps, 1);
+    assert.equal(stats.boostsUsed, 1);
+    assert.equal(stats.outOfBoundsFalls, 1);
+  });
+
+  it('starts over from stats of another version', () => {
+    race.world.playerVariables.set(`Alice:${statsKey}`, { version: 0, wins: 9 });
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    assert.deepEqual(race.careerStats.getStats(alice as unknown as hz.Player), createCareerStats());
+  });
+});
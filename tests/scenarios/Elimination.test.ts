@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as hz from 'horizon/core';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerAndStart, statusOf } from '../harness/RaceWorld';
+import { Vec3 } from '../harness/horizon/core';
+import { Events } from 'Events';
+import { GameState, PlayerGameStatus, RaceResult } from 'GameUtils';
+import { EliminationManager } from 'EliminationManager';
+
+let race: RaceWorld;
+let results: RaceResult[][];
+
+beforeEach(() => {
+  race = createRaceWorld({}, {}, {}, (world, managers) => {
+    world.createComponent(EliminationManager, managers, { eliminationIntervalMS: 10000 });
+  });
+  results = [];
+  race.world.addListener('local', Events.onRaceResults, null, (data: { results: RaceResult[] }) => results.push(data.results));
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+describe('elimination race', () => {
+  it('knocks out the last racer at each interval and ranks the survivor as the winner', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    const carol = race.world.addPlayer('Carol', lobbyPosition);
+    registerAndStart(race, [alice, bob, carol]);
+    race.world.movePlayerAlong(alice, [new Vec3(0, 0, 40)], 20);
+    race.world.movePlayerAlong(bob, [new Vec3(0, 0, 20)], 20);
+
+    race.world.advance(6000);
+    assert.equal(statusOf(race, carol), PlayerGameStatus.Eliminated);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+
+    race.world.advance(10000);
+    assert.ok(race.world.getPopupsFor(alice).includes('Alice survived the knockout!'));
+    assert.equal(results.length, 1);
+    assert.deepEqual(results[0].map((result) => [result.player.name.get(), result.position]), [['Alice', 1], ['Bob', 2], ['Carol', 3]]);
+    assert.ok(results[0][0].finishTime! > 0);
+    assert.equal(results[0][1].finishTime, null);
+    assert.equal(race.careerStats.getStats(alice as unknown as hz.Player)!.wins, 1);
+  });
+});
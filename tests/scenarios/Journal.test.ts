@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, runThreeRacerMatch } from '../harness/RaceWorld';
+import { replayTimeline } from '../harness/replay';
+import { RingBuffer } from 'GameUtils';
+import { JournalEntry, MatchTimeline, parseMatchTimeline } from 'MatchJournal';
+
+let race: RaceWorld;
+
+beforeEach(() => {
+  race = createRaceWorld();
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+// Run a match and get its timeline
+function recordMatch(): MatchTimeline {
+  runThreeRacerMatch(race);
+  return race.journal.getLastTimeline()!;
+}
+
+// The game state each state entry moved to, in order
+function stateChanges(timeline: MatchTimeline): string[] {
+  return timeline.entries
+    .filter((entry) => entry.kind === 'state')
+    .map((entry) => (entry.data as { toState: string }).toState);
+}
+
+// The entries of an event, in order
+function entriesOf(timeline: MatchTimeline, event: string): JournalEntry[] {
+  return timeline.entries.filter((entry) => entry.event === event);
+}
+
+describe('match journal', () => {
+  it('dumps the timeline of a match once it completes', () => {
+    const timeline = recordMatch();
+    assert.equal(timeline.matchNumber, 1);
+    assert.equal(timeline.droppedEntries, 0);
+    assert.deepEqual(stateChanges(timeline), ['StartingMatch', 'PlayingMatch', 'EndingMatch', 'CompletedMatch']);
+
+    const goals = entriesOf(timeline, 'onPlayerReachedGoal');
+    assert.deepEqual(goals.map((entry) => (entry.data as { player: { $player: string } }).player.$player), ['Alice', 'Bob']);
+    assert.ok(goals[0].raceTime! > 0 && goals[0].raceTime! < goals[1].raceTime!);
+    assert.equal(entriesOf(timeline, 'onRegisterPlayerForMatch')[0].raceTime, null);
+    assert.equal(entriesOf(timeline, 'onRaceResults').length, 1);
+  });
+
+  it('starts a new journal for the next match', () => {
+    recordMatch();
+    const current = race.journal.getCurrentTimeline();
+    assert.equal(current.matchNumber, 2);
+    assert.ok(current.entries.every((entry) => entry.event !== 'onPlayerReachedGoal'));
+  });
+
+  it('replays a recorded timeline to the same results', () => {
+    const json = JSON.stringify(recordMatch());
+    race.world.dispose();
+
+    race = createRaceWorld();
+    const recorded = parseMatchTimeline(json)!;
+    replayTimeline(race.world, recorded, lobbyPosition);
+    race.world.advance(5000);
+
+    const replayed = race.journal.getLastTimeline()!;
+    assert.deepEqual(stateChanges(replayed), stateChanges(recorded));
+    assert.deepEqual(entriesOf(replayed, 'onRaceResults')[0].data, entriesOf(recorded, 'onRaceResults')[0].data);
+  });
+
+  it('rejects timelines of another version', () => {
+    assert.equal(parseMatchTimeline(JSON.stringify({ version: 0, entries: [] })), null);
+    assert.equal(parseMatchTimeline('not json'), null);
+  });
+});
+
+describe('RingBuffer', () => {
+  it('keeps the newest items and counts the dropped ones', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach((item) => buffer.push(item));
+
+    assert.deepEqual(buffer.toArray(), [3, 4, 5]);
+    assert.equal(buffer.droppedCount, 2);
+
+    buffer.clear();
+    buffer.push(6);
+    assert.deepEqual(buffer.toArray(), [6]);
+    assert.equal(buffer.droppedCount, 0);
+  });
+});
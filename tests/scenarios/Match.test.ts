@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerAndStart, registerPosition, statusOf, trackLength } from '../harness/RaceWorld';
+import { Player, Vec3 } from '../harness/horizon/core';
+import { Events } from 'Events';
+import { FalseStartPenalty, GameState, PlayerGameStatus, Pool, RaceResult } from 'GameUtils';
+
+let race: RaceWorld;
+let results: RaceResult[][];
+
+beforeEach(() => {
+  race = createRaceWorld();
+  results = [];
+  race.world.addListener('local', Events.onRaceResults, null, (data: { results: RaceResult[] }) => results.push(data.results));
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+describe('full match', () => {
+  it('starts once two players register', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    assert.equal(statusOf(race, alice), PlayerGameStatus.Lobby);
+
+    registerAndStart(race, [alice, bob]);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    assert.deepEqual(race.matchManager.getPlayersWithStatus(PlayerGameStatus.Playing), [alice, bob]);
+    assert.equal(race.gameStateUI.text.get(), 'Game On!');
+  });
+
+  it('ranks the racers by their finish and sends them back to the lobby', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    registerAndStart(race, [alice, bob]);
+
+    race.world.movePlayerAlong(bob, [new Vec3(0, 0, trackLength * 0.4)], 20);
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    assert.equal(race.gameManager.getGameState(), GameState.EndingMatch);
+    assert.equal(race.raceManager.getRaceResults()[0].player, alice);
+
+    race.world.movePlayerAlong(bob, race.trackPoints.slice(3), 25);
+    race.world.advance(10000);
+    assert.equal(race.gameManager.getGameState(), GameState.ReadyForMatch);
+    assert.equal(results.length, 1);
+    assert.deepEqual(results[0].map((result) => result.player.name.get()), ['Alice', 'Bob']);
+    assert.ok(results[0][0].finishTime! > 0);
+    assert.equal(statusOf(race, alice), PlayerGameStatus.Lobby);
+    assert.ok(alice.position.get().distance(lobbyPosition) < 1);
+  });
+
+  it('broadcasts the progress of every racer in order of position', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    const updates: { racerIDs: number[], progress: number[] }[] = [];
+    race.world.addListener('network', Events.onRaceProgressUpdate, null, (data: { racerIDs: number[], progress: number[] }) => updates.push(data));
+    registerAndStart(race, [alice, bob]);
+
+    race.world.movePlayerAlong(alice, [new Vec3(0, 0, trackLength * 0.6)], 20);
+    race.world.movePlayerAlong(bob, [new Vec3(0, 0, trackLength * 0.2)], 20);
+    race.world.advance(1000);
+    const lastUpdate = updates[updates.length - 1];
+    assert.deepEqual(lastUpdate.racerIDs, [alice.id, bob.id]);
+    assert.ok(Math.abs(lastUpdate.progress[0] - 0.6) < 0.05);
+    assert.ok(Math.abs(lastUpdate.progress[1] - 0.2) < 0.05);
+  });
+
+  it('estimates the time gaps from the distance between racers and their recent speed', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    registerAndStart(race, [alice, bob]);
+
+    race.world.movePlayerAlong(alice, [new Vec3(0, 0, trackLength * 0.6)], 20);
+    race.world.movePlayerAlong(bob, [new Vec3(0, 0, trackLength * 0.2)], 10);
+    const lastUpdateFor = (player: Player) => race.world.networkMessages
+      .filter((message) => message.event === Events.onRacePosUpdate && message.target === player)
+      .pop()!.data as { gapToNext: number, gapToLeader: number };
+
+    assert.equal(lastUpdateFor(alice).gapToLeader, -1);
+    const bobUpdate = lastUpdateFor(bob);
+    assert.equal(bobUpdate.gapToNext, bobUpdate.gapToLeader);
+    assert.ok(bobUpdate.gapToLeader > 3 && bobUpdate.gapToLeader < 6, `gap ${bobUpdate.gapToLeader}`); // 40 units at about 10 per second
+  });
+
+  it('rejects a finish that skipped the checkpoint', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    registerAndStart(race, [alice, bob]);
+
+    race.world.movePlayerAlong(alice, [new Vec3(20, 0, trackLength / 2), new Vec3(0, 0, trackLength)], 25);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    assert.ok(race.world.getPopupsFor(alice).includes('Missed checkpoint 1!'));
+  });
+
+  it('ends the match when the last racer still on the track leaves', () => {
+    race.world.dispose();
+    race = createRaceWorld({ matchEndRule: 'AllFinished', raceTimeLimitMS: 60000 });
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    const carol = race.world.addPlayer('Carol', lobbyPosition);
+    registerAndStart(race, [alice, bob, carol]);
+
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    race.world.removePlayer(bob);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    race.world.removePlayer(carol);
+    assert.equal(race.gameManager.getGameState(), GameState.EndingMatch);
+  });
+
+  it('stops sending race updates to a spectator who left the world', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    registerAndStart(race, [alice, bob]);
+    const carol = race.world.addPlayer('Carol', lobbyPosition);
+    race.world.advance(1000);
+    const messagesTo = (player: Player) => race.world.networkMessages.filter((message) => message.target === player).length;
+    assert.ok(messagesTo(carol) > 0);
+
+    // The race is reset once everyone has left
+    race.world.removePlayer(carol);
+    const messagesBeforeLeaving = messagesTo(carol);
+    race.world.removePlayer(alice);
+    race.world.removePlayer(bob);
+    race.world.advance(1000);
+    assert.equal(messagesTo(carol), messagesBeforeLeaving);
+  });
+
+  it('cancels the start countdown when a player steps off the registration', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    race.world.movePlayerAlong(alice, [new Vec3(10, 0, -50)], 20);
+    race.world.movePlayerAlong(bob, [new Vec3(10, 0, -50)], 20);
+    assert.equal(race.gameManager.getGameState(), GameState.StartingMatch);
+
+    race.world.movePlayerAlong(bob, [lobbyPosition], 20);
+    assert.equal(race.gameManager.getGameState(), GameState.ReadyForMatch);
+    assert.equal(statusOf(race, bob), PlayerGameStatus.Lobby);
+  });
+
+  it('waits for every racer under AllFinished until the safety time limit', () => {
+    race.world.dispose();
+    race = createRaceWorld({ matchEndRule: 'AllFinished', allFinishedTimeLimitMS: 60000 });
+    race.world.addListener('local', Events.onRaceResults, null, (data: { results: RaceResult[] }) => results.push(data.results));
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    registerAndStart(race, [alice, bob]);
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    race.world.advance(30000);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+
+    race.world.advance(30000);
+    assert.notEqual(race.gameManager.getGameState(), GameState.PlayingMatch);
+    assert.deepEqual(results[0].map((result) => [result.player.name.get(), result.finishTime !== null]), [['Alice', true], ['Bob', false]]);
+  });
+
+  it('leaves a player who un-readied in the lobby when the match starts', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    const carol = race.world.addPlayer('Carol', lobbyPosition);
+    race.world.dispatch('local', Events.onTogglePlayerReady, null, { player: carol });
+    assert.equal(statusOf(race, carol), PlayerGameStatus.Standby);
+    race.world.dispatch('local', Events.onTogglePlayerReady, null, { player: carol });
+    assert.equal(statusOf(race, carol), PlayerGameStatus.Lobby);
+
+    registerAndStart(race, [alice, bob]);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    assert.deepEqual(race.matchManager.getPlayersWithStatus(PlayerGameStatus.Playing), [alice, bob]);
+    assert.equal(statusOf(race, carol), PlayerGameStatus.Lobby);
+  });
+
+  it('keeps a racer disqualified for a false start out of the race when they register again', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    const carol = race.world.addPlayer('Carol', lobbyPosition);
+    [alice, bob, carol].forEach((player) => race.world.movePlayerAlong(player, [registerPosition], 20));
+    race.world.dispatch('local', Events.onPlayerFalseStart, null, { player: carol, penalty: FalseStartPenalty.Disqualify, timePenaltyMS: 0 });
+    assert.equal(statusOf(race, carol), PlayerGameStatus.Spectating);
+
+    race.world.movePlayerAlong(carol, [lobbyPosition, registerPosition], 20);
+    assert.equal(statusOf(race, carol), PlayerGameStatus.Spectating);
+    race.world.advance(5000);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    assert.deepEqual(race.matchManager.getPlayersWithStatus(PlayerGameStatus.Playing), [alice, bob]);
+  });
+});
+
+describe('Pool', () => {
+  it('hands out each item once until it is returned', () => {
+    const pool = new Pool<string>();
+    pool.addToPool('a');
+    pool.addToPool('b');
+
+    assert.equal(pool.getNextAvailable(), 'a');
+    assert.equal(pool.getNextAvailable(), 'b');
+    assert.equal(pool.getNextAvailable(), null);
+    assert.ok(pool.hasActive());
+
+    pool.addToPool('a');
+    assert.ok(pool.isAvailable('a'));
+    assert.equal(pool.getNextAvailable(), 'a');
+  });
+});
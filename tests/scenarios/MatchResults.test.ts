@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerAndStart, runThreeRacerMatch } from '../harness/RaceWorld';
+import { Player } from '../harness/horizon/core';
+import { Events } from 'Events';
+import { PlayerAbility } from 'GameUtils';
+import { CareerStatsManager, careerStatsVariableKey as statsKey, createCareerStats } from 'CareerStatsManager';
+
+type PersonalResult = {
+  position: number, totalRacers: number, finished: boolean, finishTime: number, hasPersonalBest: boolean,
+  deltaToPersonalBest: number, deltaToWinner: number, respawns: number, boostsUsed: number, hasStats: boolean, isNewPersonalBest: boolean,
+};
+
+let race: RaceWorld;
+
+beforeEach(() => {
+  race = createRaceWorld();
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+// The personal results sent to a player, oldest first
+function resultsSentTo(player: Player): PersonalResult[] {
+  return race.world.networkMessages
+    .filter((message) => message.event === Events.onPersonalRaceResult && message.target === player)
+    .map((message) => message.data as PersonalResult);
+}
+
+describe('personal match results', () => {
+  it('sends every racer their position, deltas and the abilities and respawns of the race', () => {
+    race.world.playerVariables.set(`Alice:${statsKey}`, { ...createCareerStats(), boostsUsed: 7, bestTimes: { Skyline: 1000 } });
+    const { alice, bob, carol } = runThreeRacerMatch(race, ({ alice, bob }) => {
+      race.world.dispatch('network', Events.onPlayerAbilityUsed, null, { player: alice, ability: PlayerAbility.Boost });
+      race.world.dispatch('network', Events.onPlayerAbilityUsed, null, { player: alice, ability: PlayerAbility.Boost });
+      race.world.dispatch('network', Events.onPlayerOutOfBounds, bob, {});
+    });
+
+    const [aliceResult] = resultsSentTo(alice);
+    assert.equal(aliceResult.position, 1);
+    assert.equal(aliceResult.totalRacers, 3);
+    assert.ok(aliceResult.finished);
+    assert.ok(aliceResult.hasPersonalBest);
+    assert.ok(Math.abs(aliceResult.deltaToPersonalBest - (aliceResult.finishTime - 1000)) < 1e-9);
+    assert.equal(aliceResult.deltaToWinner, 0);
+    assert.ok(aliceResult.isNewPersonalBest);
+    assert.ok(aliceResult.hasStats);
+    assert.equal(aliceResult.boostsUsed, 2);
+    assert.equal(aliceResult.respawns, 0);
+
+    const [bobResult] = resultsSentTo(bob);
+    assert.equal(bobResult.position, 2);
+    assert.ok(!bobResult.hasPersonalBest);
+    assert.ok(bobResult.isNewPersonalBest);
+    assert.ok(Math.abs(bobResult.deltaToWinner - (bobResult.finishTime - aliceResult.finishTime)) < 1e-9);
+    assert.ok(bobResult.deltaToWinner > 0);
+    assert.equal(bobResult.respawns, 1);
+
+    const [carolResult] = resultsSentTo(carol);
+    assert.equal(carolResult.position, 3);
+    assert.ok(!carolResult.finished);
+    assert.ok(!carolResult.isNewPersonalBest);
+  });
+
+  it('sends the position and times without career stats', () => {
+    // A world without a CareerStatsManager
+    (CareerStatsManager as unknown as { s_instance?: CareerStatsManager }).s_instance = undefined;
+    const { alice, bob } = runThreeRacerMatch(race, ({ alice }) => {
+      race.world.dispatch('network', Events.onPlayerAbilityUsed, null, { player: alice, ability: PlayerAbility.Boost });
+    });
+
+    const [aliceResult] = resultsSentTo(alice);
+    const [bobResult] = resultsSentTo(bob);
+    assert.equal(aliceResult.position, 1);
+    assert.equal(bobResult.position, 2);
+    assert.ok(Math.abs(bobResult.deltaToWinner - (bobResult.finishTime - aliceResult.finishTime)) < 1e-9);
+    assert.ok(!aliceResult.hasPersonalBest);
+    assert.ok(!aliceResult.isNewPersonalBest);
+    assert.ok(!aliceResult.hasStats);
+  });
+
+  it('hides the results when the next match starts', () => {
+    let hides = 0;
+    race.world.addListener('network', Events.onHidePersonalResults, null, () => hides++);
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    const bob = race.world.addPlayer('Bob', lobbyPosition);
+    registerAndStart(race, [alice, bob]);
+    assert.equal(hides, 1);
+
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    race.world.movePlayerAlong(bob, race.trackPoints, 25);
+    race.world.advance(5000);
+    assert.equal(resultsSentTo(alice).length, 1);
+    assert.equal(hides, 1);
+
+    registerAndStart(race, [alice, bob]);
+    assert.equal(hides, 2);
+  });
+});
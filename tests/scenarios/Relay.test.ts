@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerAndStart, relayHandoffPosition, relayWaitingPosition, trackLength } from '../harness/RaceWorld';
+import { getRegisteredComponent, Player, Vec3 } from '../harness/horizon/core';
+import { GameState } from 'GameUtils';
+import 'LeaderboardController';
+import 'PlayerRelayHandoffTrigger';
+
+const handoffZonePosition = new Vec3(0, 0, trackLength - 8); // Center of the hand-off zone, just before the goal
+
+let race: RaceWorld;
+
+beforeEach(() => {
+  race = createRaceWorld(
+    { matchEndRule: 'TopFinishers', matchEndFinisherCount: 2 },
+    { relayTeamSize: 2 },
+    {},
+    (world, managers) => {
+      world.createComponent(getRegisteredComponent('LeaderboardController'), managers);
+      world.createComponent(getRegisteredComponent('PlayerRelayHandoffTrigger'),
+        world.createEntity('RelayHandoff', handoffZonePosition, { triggerRadius: 2 }));
+    });
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+// Start a relay between two teams of two, returning the runners of each team in the order of their legs
+function startRelay(): Player[][] {
+  const players = ['Alice', 'Bob', 'Carol', 'Dave'].map((name) => race.world.addPlayer(name, lobbyPosition));
+  registerAndStart(race, players);
+  return race.matchManager.getRelayTeams().map((team) => team.members as unknown as Player[]);
+}
+
+// Run the first leg and step into the hand-off zone, where the runner stays unless they are moved off the track
+function runFirstLeg(runner: Player): void {
+  race.world.movePlayerAlong(runner, race.trackPoints.filter((point) => point.z < handoffZonePosition.z), 25);
+  runner.position.set(handoffZonePosition);
+  race.world.advance(500);
+}
+
+describe('relay race', () => {
+  it('holds the waiting runners off the track and sends each runner out from the hand-off point', () => {
+    const [[firstRunner, secondRunner]] = startRelay();
+    assert.ok(secondRunner.position.get().distance(relayWaitingPosition) < 1e-9);
+
+    runFirstLeg(firstRunner);
+    assert.ok(firstRunner.position.get().distance(relayWaitingPosition) < 1e-9);
+    assert.ok(secondRunner.position.get().distance(relayHandoffPosition) < 1e-9);
+    assert.ok(race.world.getPopupsFor(secondRunner).includes('Leg 2/2 - Go!'));
+  });
+
+  it('counts a relay team as one finisher and records the team time for every runner', () => {
+    const teams = startRelay();
+    const runRelay = ([firstRunner, secondRunner]: Player[]) => {
+      runFirstLeg(firstRunner);
+      race.world.movePlayerAlong(secondRunner, race.trackPoints, 25);
+      race.world.advance(500);
+    };
+
+    // The match ends on the second finishing team, not on the two runners of the first
+    runRelay(teams[0]);
+    assert.equal(race.gameManager.getGameState(), GameState.PlayingMatch);
+    runRelay(teams[1]);
+    assert.equal(race.gameManager.getGameState(), GameState.EndingMatch);
+
+    race.world.advance(5000);
+    teams.forEach(([firstRunner, secondRunner]) => {
+      const teamTime = race.world.leaderboardScores.get(`RelayLeaderboard:${firstRunner.name.get()}`);
+      assert.ok(teamTime !== undefined);
+      assert.equal(race.world.leaderboardScores.get(`RelayLeaderboard:${secondRunner.name.get()}`), teamTime);
+    });
+  });
+});
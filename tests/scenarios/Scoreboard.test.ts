@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerAndStart, runThreeRacerMatch } from '../harness/RaceWorld';
+import { Player, Vec3 } from '../harness/horizon/core';
+import { Events } from 'Events';
+import { formatScoreboardEntry, getScoreboardOwnPage, getScoreboardPageCount, ScoreboardRow, ScoreboardStatus } from 'GameUtils';
+
+let race: RaceWorld;
+let updates: { title: string, rows: ScoreboardRow[] }[]; // Every scoreboard update, oldest first
+
+beforeEach(() => {
+  race = createRaceWorld();
+  updates = [];
+  race.world.addListener('local', Events.onScoreboardUpdate, null, (data) => updates.push(data as { title: string, rows: ScoreboardRow[] }));
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+// The last scoreboard update
+function lastUpdate(): { title: string, rows: ScoreboardRow[] } {
+  return updates[updates.length - 1];
+}
+
+describe('race scoreboard', () => {
+  it('lists the finishers during the race and ranks every racer at the end', () => {
+    const { bob } = runThreeRacerMatch(race, () => {
+      assert.deepEqual(lastUpdate(), { title: '', rows: [] });
+    });
+    const finishers = updates.filter((update) => update.title === 'Finishers');
+    assert.deepEqual(finishers.map((update) => update.rows.map((row) => row.name)), [['Alice'], ['Alice', 'Bob']]);
+
+    const { title, rows } = lastUpdate();
+    assert.equal(title, 'Results');
+    assert.deepEqual(rows.map((row) => [row.rank, row.name, row.status]), [
+      [1, 'Alice', ScoreboardStatus.Finished],
+      [2, 'Bob', ScoreboardStatus.Finished],
+      [3, 'Carol', ScoreboardStatus.DidNotFinish],
+    ]);
+    assert.deepEqual(rows[1].playerIDs, [bob.id]);
+    assert.equal(rows[0].gap, null);
+    assert.ok(Math.abs(rows[1].gap! - (rows[1].time! - rows[0].time!)) < 1e-9);
+    assert.ok(rows[1].gap! > 0);
+    assert.equal(rows[2].gap, null);
+  });
+
+  it('lists every racer of a large lobby, the finishers first', () => {
+    const players: Player[] = [];
+    for (let i = 0; i < 10; i++) {
+      players.push(race.world.addPlayer(`Racer${i}`, lobbyPosition));
+    }
+    registerAndStart(race, players);
+    players.forEach((player) => race.world.movePlayerAlong(player, [new Vec3(0, 0, 40)], 20));
+    players.forEach((player) => race.world.movePlayerAlong(player, race.trackPoints.slice(3), 25));
+    race.world.advance(5000);
+
+    const { rows } = lastUpdate();
+    assert.equal(rows.length, 10);
+    assert.deepEqual(rows.map((row) => row.rank), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    const finishers = rows.filter((row) => row.status === ScoreboardStatus.Finished).length;
+    assert.ok(finishers > 0);
+    assert.ok(rows.slice(finishers).every((row) => row.status === ScoreboardStatus.DidNotFinish));
+  });
+});
+
+describe('scoreboard pages', () => {
+  // Rows of racers with player IDs 0 to count - 1, in order of position
+  const rowsOf = (count: number): ScoreboardRow[] => Array.from({ length: count }, (_, i) => ({
+    rank: i + 1, name: `Racer${i}`, playerIDs: [i], time: null, gap: null, status: ScoreboardStatus.DidNotFinish, note: '',
+  }));
+
+  it('splits the rows into pages and opens the page with the player\'s own row', () => {
+    assert.equal(getScoreboardPageCount(0, 4), 1);
+    assert.equal(getScoreboardPageCount(8, 4), 2);
+    assert.equal(getScoreboardPageCount(10, 4), 3);
+
+    const rows = rowsOf(10);
+    assert.equal(getScoreboardOwnPage(rows, 0, 4), 0);
+    assert.equal(getScoreboardOwnPage(rows, 4, 4), 1);
+    assert.equal(getScoreboardOwnPage(rows, 9, 4), 2);
+    assert.equal(getScoreboardOwnPage(rows, 42, 4), 0);
+  });
+
+  it('formats the rows and highlights the viewer\'s own row', () => {
+    const finisher: ScoreboardRow = {
+      rank: 2, name: 'Bob', playerIDs: [1, 2], time: 65.25, gap: 1.5, status: ScoreboardStatus.Finished, note: '',
+    };
+    assert.deepEqual(formatScoreboardEntry(finisher, 2), {
+      rank: '2', name: 'Bob', time: '01 : 05 : 25', gap: '+1.50s', status: 'Finished', highlighted: true,
+    });
+    assert.ok(!formatScoreboardEntry(finisher, 3).highlighted);
+
+    const disqualified: ScoreboardRow = {
+      rank: 0, name: 'Carol', playerIDs: [3], time: null, gap: null, status: ScoreboardStatus.Disqualified, note: 'False start',
+    };
+    assert.deepEqual(formatScoreboardEntry(disqualified, 1), {
+      rank: '-', name: 'Carol', time: '--', gap: '', status: 'Disqualified (False start)', highlighted: false,
+    });
+  });
+});
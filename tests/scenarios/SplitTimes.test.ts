@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerAndStart } from '../harness/RaceWorld';
+import { getRegisteredComponent, Player, Vec3 } from '../harness/horizon/core';
+import { Events } from 'Events';
+import 'LeaderboardController';
+
+const splitsKey = 'SkylineSprint:bestSplits'; // Default persistent variable of the SplitTimesManager
+
+type SplitUpdate = { splitName: string, splitTime: number, hasBestSplit: boolean, deltaTime: number };
+
+let race: RaceWorld;
+
+beforeEach(() => {
+  race = createRaceWorld();
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+// The splits sent to a player's HUD, oldest first
+function splitsSentTo(player: Player): SplitUpdate[] {
+  return race.world.networkMessages
+    .filter((message) => message.event === Events.onCheckpointSplit && message.target === player)
+    .map((message) => message.data as SplitUpdate);
+}
+
+// Race Alice to the goal, with Bob left behind on the track, and let the match complete unless it is aborted first
+function raceAlice(abortMatch = false): Player {
+  const alice = race.world.addPlayer('Alice', lobbyPosition);
+  const bob = race.world.addPlayer('Bob', lobbyPosition);
+  registerAndStart(race, [alice, bob]);
+  race.world.movePlayerAlong(bob, [new Vec3(0, 0, 10)], 20);
+  race.world.movePlayerAlong(alice, race.trackPoints, 25);
+  if (abortMatch) {
+    race.gameManager.abortMatch();
+  }
+  race.world.advance(5000);
+  return alice;
+}
+
+describe('checkpoint splits', () => {
+  it('sends splits without a delta on the first run and stores them', () => {
+    const alice = raceAlice();
+
+    const splits = splitsSentTo(alice);
+    assert.deepEqual(splits.map((split) => split.splitName), ['CP 1/1', 'Finish']);
+    assert.ok(splits.every((split) => !split.hasBestSplit));
+    const stored = race.world.playerVariables.get(`Alice:${splitsKey}`) as { tracks: { [name: string]: { splits: number[] } } };
+    assert.deepEqual(stored.tracks['Skyline'].splits, splits.map((split) => split.splitTime));
+  });
+
+  it('compares the splits with the best run and keeps the faster one', () => {
+    race.world.playerVariables.set(`Alice:${splitsKey}`, { version: 1, tracks: { Skyline: { finishTime: 3, splits: [1, 3] } } });
+    const alice = raceAlice();
+
+    const [checkpoint, finish] = splitsSentTo(alice);
+    assert.ok(checkpoint.hasBestSplit);
+    assert.ok(Math.abs(checkpoint.deltaTime - (checkpoint.splitTime - 1)) < 1e-9);
+    assert.ok(finish.deltaTime > 0);
+    const stored = race.world.playerVariables.get(`Alice:${splitsKey}`) as { tracks: { [name: string]: { finishTime: number } } };
+    assert.equal(stored.tracks['Skyline'].finishTime, 3);
+  });
+
+  it('stores neither the splits nor the leaderboard time of an aborted match', () => {
+    race.world.dispose();
+    race = createRaceWorld({}, {}, {}, (world, managers) => {
+      world.createComponent(getRegisteredComponent('LeaderboardController'), managers);
+    });
+    const alice = raceAlice(true);
+
+    assert.equal(splitsSentTo(alice).length, 2);
+    assert.equal(race.world.playerVariables.get(`Alice:${splitsKey}`), undefined);
+    assert.equal(race.world.leaderboardScores.size, 0);
+  });
+
+  it('updates the leaderboard once the match completes', () => {
+    race.world.dispose();
+    race = createRaceWorld({}, {}, {}, (world, managers) => {
+      world.createComponent(getRegisteredComponent('LeaderboardController'), managers);
+    });
+    raceAlice();
+
+    assert.deepEqual(Array.from(race.world.leaderboardScores.keys()), ['Leaderboard:Alice']);
+  });
+});
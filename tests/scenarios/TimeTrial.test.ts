@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRaceWorld, lobbyPosition, RaceWorld, registerPosition, statusOf } from '../harness/RaceWorld';
+import { getRegisteredComponent, Player, Vec3 } from '../harness/horizon/core';
+import { Events } from 'Events';
+import { PlayerGameStatus } from 'GameUtils';
+import 'PlayerTimeTrialStartTrigger';
+
+const timeTrialStartPosition = new Vec3(-10, 0, -50); // Center of the time trial start trigger, in the lobby
+
+let race: RaceWorld;
+let finishes: { player: Player, matchTime: number }[];
+
+// Create a race world with a time trial start in the lobby, on a track with the given number of laps
+function createTimeTrialWorld(lapCount = 1): RaceWorld {
+  const timeTrialWorld = createRaceWorld({}, {}, { lapCount }, (world) => {
+    world.createComponent(getRegisteredComponent('PlayerTimeTrialStartTrigger'),
+      world.createEntity('TimeTrialStart', timeTrialStartPosition, { triggerRadius: 2 }));
+  });
+  finishes = [];
+  timeTrialWorld.world.addListener('local', Events.onPlayerFinishedTimeTrial, null, (data: { player: Player, matchTime: number }) => finishes.push(data));
+  return timeTrialWorld;
+}
+
+// Walk the player through the time trial start and onto the start of the track
+function startTimeTrial(player: Player): void {
+  race.world.movePlayerAlong(player, [timeTrialStartPosition, race.trackPoints[0]], 25);
+}
+
+beforeEach(() => {
+  race = createTimeTrialWorld();
+});
+
+afterEach(() => {
+  race.world.dispose();
+});
+
+describe('time trial', () => {
+  it('times a solo run while the player stays in the lobby for the MatchManager', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    startTimeTrial(alice);
+    assert.equal(statusOf(race, alice), PlayerGameStatus.Lobby);
+
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    race.world.advance(500);
+
+    assert.equal(finishes.length, 1);
+    assert.equal(finishes[0].player, alice);
+    assert.ok(finishes[0].matchTime > 0);
+    assert.equal(statusOf(race, alice), PlayerGameStatus.Lobby);
+    assert.ok(race.world.leaderboardScores.has('TimeTrialLeaderboard:Alice'));
+  });
+
+  it('runs every lap of a circuit before finishing', () => {
+    race.world.dispose();
+    race = createTimeTrialWorld(2);
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    startTimeTrial(alice);
+
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    race.world.advance(500);
+    assert.equal(finishes.length, 0);
+    assert.ok(race.world.getPopupsFor(alice).includes('Lap 2/2'));
+
+    // Go back around to the start line and run the second lap
+    race.world.movePlayerAlong(alice, race.trackPoints.slice().reverse(), 25);
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    race.world.advance(500);
+    assert.equal(finishes.length, 1);
+  });
+
+  it('ends the run when the player gets ready for the match', () => {
+    const alice = race.world.addPlayer('Alice', lobbyPosition);
+    startTimeTrial(alice);
+    race.world.movePlayerAlong(alice, [registerPosition], 25);
+    assert.equal(statusOf(race, alice), PlayerGameStatus.Standby);
+
+    race.world.movePlayerAlong(alice, race.trackPoints, 25);
+    race.world.advance(500);
+    assert.equal(finishes.length, 0);
+  });
+});
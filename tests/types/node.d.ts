@@ -0,0 +1,38 @@
+// Minimal typings for the parts of Node used by the tests, so they build without @types/node
+
+declare const __dirname: string;
+
+declare module 'node:test' {
+  export function describe(name: string, fn: () => void): void;
+  export function it(name: string, fn: () => void | Promise<void>): void;
+  export function beforeEach(fn: () => void | Promise<void>): void;
+  export function afterEach(fn: () => void | Promise<void>): void;
+}
+
+declare module 'node:assert/strict' {
+  const assert: {
+    (value: unknown, message?: string): asserts value;
+    equal<T>(actual: unknown, expected: T, message?: string): asserts actual is T;
+    notEqual(actual: unknown, expected: unknown, message?: string): void;
+    deepEqual<T>(actual: unknown, expected: T, message?: string): asserts actual is T;
+    ok(value: unknown, message?: string): asserts value;
+    match(value: string, regExp: RegExp, message?: string): void;
+  };
+  export default assert;
+}
+
+declare module 'node:module' {
+  const Module: {
+    _resolveFilename(request: string, parent: unknown, ...rest: unknown[]): string;
+  };
+  export default Module;
+}
+
+declare module 'node:path' {
+  export function join(...paths: string[]): string;
+  export function resolve(...paths: string[]): string;
+}
+
+declare module 'node:fs' {
+  export function existsSync(path: string): boolean;
+}